@@ -0,0 +1,153 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { clearTimeout, setTimeout } from 'timers';
+import TuyAPI from 'tuyapi';
+
+import { TuyaCloud, mergeCloudDevices } from '../dist/cloud.js';
+import { DEFAULT_PROTOCOL_VERSION, PROTOCOL_VERSIONS } from '../dist/config.js';
+import { DEVICE_TYPES } from '../dist/deviceTypes.js';
+import { DIAGNOSTICS_FILE } from '../dist/diagnostics.js';
+import { TuyaDiscovery } from '../dist/discovery.js';
+import { DPS_PROFILES } from '../dist/dps.js';
+
+const DEFAULT_SCAN_TIME = 8000; // devices broadcast about every 5 seconds
+const MAX_SCAN_TIME = 30000;
+const TEST_TIMEOUT = 5000;
+
+/**
+ * Backend of the custom settings panel: scans the LAN for devices, reads
+ * the live data points of a device so they can be mapped to functions,
+ * imports device ids and local keys from a Tuya cloud project on request,
+ * and shows the diagnostics dump the running plugin writes.
+ */
+class LocalTuyaUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+
+    this.onRequest('/profiles', this.getProfiles.bind(this));
+    this.onRequest('/scan', this.scan.bind(this));
+    this.onRequest('/test', this.testConnection.bind(this));
+    this.onRequest('/cloud-import', this.cloudImport.bind(this));
+    this.onRequest('/diagnostics', this.getDiagnostics.bind(this));
+
+    this.ready();
+  }
+
+  /**
+   * Device types and DPS profiles, used to prefill the mapping editor
+   */
+  getProfiles() {
+    const types = Object.fromEntries(Object.entries(DEVICE_TYPES).map(([type, definition]) => [
+      type,
+      { title: definition.title, profile: definition.profile, functions: definition.functions },
+    ]));
+    return { types, profiles: DPS_PROFILES };
+  }
+
+  /**
+   * Listens for device broadcasts for a few seconds and returns every device heard
+   */
+  async scan({ duration } = {}) {
+    const scanTime = Math.min(Number(duration) || DEFAULT_SCAN_TIME, MAX_SCAN_TIME);
+    // The UI server has no Homebridge log, so problems are passed on to the page instead
+    const log = {
+      debug: () => undefined,
+      info: () => undefined,
+      warn: (...args) => this.pushEvent('scan-warning', args.join(' ')),
+      error: (...args) => this.pushEvent('scan-warning', args.join(' ')),
+    };
+    const discovery = new TuyaDiscovery(log, () => undefined);
+
+    discovery.start();
+    await new Promise((resolve) => setTimeout(resolve, scanTime));
+    discovery.stop();
+
+    return [...discovery.devices.values()];
+  }
+
+  /**
+   * Connects to a device and returns its full DPS dump, probing each protocol version for `auto`
+   */
+  async testConnection({ id, key, ip, protocolVersion } = {}) {
+    if (!id || !key || !ip) {
+      throw new RequestError('Device ID, local key and IP address are required', { status: 400 });
+    }
+    if (key.length !== 16) {
+      throw new RequestError('The local key must be 16 characters long', { status: 400 });
+    }
+
+    const version = protocolVersion || DEFAULT_PROTOCOL_VERSION;
+    const versions = version === 'auto' ? PROTOCOL_VERSIONS : [version];
+    const errors = [];
+
+    for (const candidate of versions) {
+      try {
+        const dps = await this.readDps({ id, key, ip, version: candidate });
+        return { protocolVersion: candidate, dps };
+      } catch (error) {
+        errors.push(`${candidate}: ${error.message}`);
+      }
+    }
+
+    throw new RequestError(`Device did not respond (${errors.join(', ')})`, { status: 504 });
+  }
+
+  /**
+   * Fetches the devices of the cloud project and merges them into the given device list.
+   * Nothing is saved here, the page updates the config for the user to review.
+   */
+  async cloudImport({ cloud, devices } = {}) {
+    if (!cloud?.accessId || !cloud?.accessSecret) {
+      throw new RequestError('The cloud Access ID and Access Secret are required', { status: 400 });
+    }
+
+    const client = new TuyaCloud(cloud);
+    try {
+      const cloudDevices = await client.getDevices();
+      // Category names only make the report friendlier, the import works without them
+      const categories = await client.getCategories().catch(() => []);
+      return mergeCloudDevices(devices || [], cloudDevices, categories);
+    } catch (error) {
+      throw new RequestError(error.message, { status: 502 });
+    }
+  }
+
+  /**
+   * The diagnostics dump last written by the plugin, which has local keys hidden already
+   */
+  async getDiagnostics() {
+    const file = path.join(this.homebridgeStoragePath ?? '', DIAGNOSTICS_FILE);
+    try {
+      return await readFile(file, 'utf8');
+    } catch {
+      throw new RequestError('No diagnostics yet, they are written a few minutes after Homebridge starts', { status: 404 });
+    }
+  }
+
+  async readDps(options) {
+    const device = new TuyAPI(options);
+    // Connection errors also reject the pending get, which reports them
+    device.on('error', () => undefined);
+
+    let timeout;
+    try {
+      const response = await Promise.race([
+        device.get({ schema: true }),
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Operation timed out')), TEST_TIMEOUT);
+        }),
+      ]);
+
+      if (!response || typeof response !== 'object' || !response.dps) {
+        throw new Error(`Unexpected response ${JSON.stringify(response)}`);
+      }
+      return response.dps;
+    } finally {
+      clearTimeout(timeout);
+      device.disconnect();
+    }
+  }
+}
+
+(() => new LocalTuyaUiServer())();
@@ -0,0 +1,117 @@
+import type { Logging } from 'homebridge';
+
+import type { DpsData } from '../commandQueue.js';
+import { DEFAULT_DEVICE_TYPE } from '../deviceTypes.js';
+import type { Diagnostics } from '../diagnostics.js';
+import type { DpsFunction, DpsFunctionName } from '../dps.js';
+import type { DeviceState, TuyaAccessory } from '../platformAccessory.js';
+import { encodeSceneValue } from '../scene.js';
+
+/**
+ * Error from a bridge request, with the HTTP status it is answered with
+ */
+export class BridgeError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'BridgeError';
+  }
+}
+
+/**
+ * The running devices the bridges work with, provided by the platform
+ */
+export interface DeviceDirectory {
+  readonly log: Logging;
+  readonly devices: TuyaAccessory[];
+  findAccessory(reference: string): TuyaAccessory | undefined;
+  diagnostics(): Diagnostics;
+}
+
+export interface DeviceSummary {
+  id: string;
+  // Node id of a gateway sub-device, whose id is the gateway's
+  cid?: string;
+  name: string;
+  type: string;
+  online: boolean;
+}
+
+export interface DeviceStatus extends DeviceSummary {
+  state: DeviceState;
+  // Last known value of each data point
+  dps: Record<string, unknown>;
+  // The same values keyed by the functions of the device's DPS mapping
+  values: Partial<Record<DpsFunctionName, unknown>>;
+}
+
+/**
+ * How a device is named in topics and URLs: its node id for gateway sub-devices, its id otherwise
+ */
+export function deviceReference(device: TuyaAccessory): string {
+  return device.deviceConfig.cid ?? device.deviceConfig.id;
+}
+
+export function describeDevice(device: TuyaAccessory): DeviceSummary {
+  const { id, cid, name, type } = device.deviceConfig;
+  return { id, cid, name, type: type ?? DEFAULT_DEVICE_TYPE, online: device.isReachable };
+}
+
+/**
+ * The device's summary with its connection state and last known values, served from the
+ * cache the device keeps up to date rather than queried
+ */
+export function deviceStatus(device: TuyaAccessory): DeviceStatus {
+  const dps = device.dps;
+  const mapped = Object.entries(device.dpsMapping) as [DpsFunctionName, DpsFunction | undefined][];
+  const values = Object.fromEntries(mapped
+    .filter(([, fn]) => fn && String(fn.dps) in dps)
+    .map(([name, fn]) => [name, dps[String(fn!.dps)]]));
+  return { ...describeDevice(device), state: device.deviceState, dps, values };
+}
+
+/**
+ * Converts values keyed by data point number or by function of the device's DPS mapping into
+ * native values keyed by data point. Function values are converted like scene values, so `true`
+ * and `30%` work as they do there and values a function cannot take are refused; data point
+ * values are written as given.
+ */
+export function parseWrite(device: TuyaAccessory, values: unknown): DpsData {
+  if (!values || typeof values !== 'object' || Array.isArray(values) || Object.keys(values).length === 0) {
+    throw new BridgeError('Expected an object of values keyed by DPS or function', 400);
+  }
+
+  const data: DpsData = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (!['boolean', 'number', 'string'].includes(typeof value)) {
+      throw new BridgeError(`Value of ${key} must be a boolean, number or string`, 400);
+    }
+    if (/^[1-9]\d*$/.test(key)) {
+      data[key] = value;
+      continue;
+    }
+    const fn = Object.hasOwn(device.dpsMapping, key) ? device.dpsMapping[key as DpsFunctionName] : undefined;
+    if (!fn) {
+      throw new BridgeError(`${device.deviceConfig.name} has no DPS mapped for ${key}`, 400);
+    }
+    try {
+      data[String(fn.dps)] = encodeSceneValue(fn, value);
+    } catch (error) {
+      throw new BridgeError(`${key} of ${device.deviceConfig.name} cannot be set to ${JSON.stringify(value)}, ${(error as Error).message}`, 400);
+    }
+  }
+  return data;
+}
+
+/**
+ * Writes values, see parseWrite, in one command over the device's own connection and
+ * returns its status once the device has confirmed them
+ */
+export async function writeDevice(device: TuyaAccessory, values: unknown): Promise<DeviceStatus> {
+  const data = parseWrite(device, values);
+  try {
+    await device.writeDps(data);
+  } catch {
+    throw new BridgeError(`${device.deviceConfig.name} could not be set`, 503);
+  }
+  return deviceStatus(device);
+}
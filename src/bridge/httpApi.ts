@@ -0,0 +1,141 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+import type { HttpBridgeConfig } from '../config.js';
+import type { TuyaAccessory } from '../platformAccessory.js';
+import { BridgeError, describeDevice, deviceStatus, writeDevice } from './devices.js';
+import type { DeviceDirectory } from './devices.js';
+
+// Only this machine can reach the API unless configured otherwise
+const DEFAULT_HOST = '127.0.0.1';
+// Largest request body accepted, a write of a few data points is far smaller
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * A small JSON API on the local network for programs that are not HomeKit, such as dashboards:
+ *
+ * - `GET /devices`: every device with whether it is online
+ * - `GET /devices/:device`: one device with its connection state and last known values
+ * - `GET /devices/:device/dps`: the last known value of each data point
+ * - `PUT /devices/:device/dps`: writes values keyed by data point or function, see parseWrite
+ * - `GET /diagnostics`: the diagnostics dump, see Diagnostics
+ *
+ * Devices are named by their id, their node id for gateway sub-devices, or their name. Reads are
+ * served from the state the plugin keeps, writes go over the plugin's own connection to the device.
+ */
+export class BridgeHttpApi {
+  private readonly server: http.Server;
+
+  constructor(
+    private readonly directory: DeviceDirectory,
+    private readonly config: HttpBridgeConfig,
+  ) {
+    this.server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => this.sendError(response, error));
+    });
+  }
+
+  /**
+   * Port the API listens on, which differs from the configured one when that is 0
+   */
+  get port(): number {
+    return (this.server.address() as AddressInfo | null)?.port ?? this.config.port;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, this.config.host ?? DEFAULT_HOST, () => {
+        this.server.off('error', reject);
+        this.server.on('error', (error) => this.directory.log.error('HTTP API error:', error.message));
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    if (this.config.token && request.headers.authorization !== `Bearer ${this.config.token}`) {
+      throw new BridgeError('Missing or wrong bearer token', 401);
+    }
+
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    const [collection, reference, resource, ...rest] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (collection === 'diagnostics' && reference === undefined) {
+      this.allowMethods(request, 'GET');
+      this.send(response, 200, this.directory.diagnostics());
+      return;
+    }
+    if (collection !== 'devices' || rest.length > 0 || (resource !== undefined && resource !== 'dps')) {
+      throw new BridgeError(`No such resource ${pathname}`, 404);
+    }
+
+    if (reference === undefined) {
+      this.allowMethods(request, 'GET');
+      this.send(response, 200, this.directory.devices.map(describeDevice));
+      return;
+    }
+
+    const device = this.findDevice(reference);
+    if (resource === undefined) {
+      this.allowMethods(request, 'GET');
+      this.send(response, 200, deviceStatus(device));
+    } else if (request.method === 'GET') {
+      this.send(response, 200, device.dps);
+    } else {
+      this.allowMethods(request, 'PUT', 'POST');
+      this.send(response, 200, await writeDevice(device, await this.readJson(request)));
+    }
+  }
+
+  private findDevice(reference: string): TuyaAccessory {
+    const device = this.directory.findAccessory(reference);
+    if (!device) {
+      throw new BridgeError(`No device ${reference}`, 404);
+    }
+    return device;
+  }
+
+  private allowMethods(request: http.IncomingMessage, ...methods: string[]) {
+    if (!methods.includes(request.method ?? '')) {
+      throw new BridgeError(`Method ${request.method} not allowed, expected ${methods.join(' or ')}`, 405);
+    }
+  }
+
+  private async readJson(request: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        throw new BridgeError('Request body too large', 413);
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new BridgeError('Request body is not valid JSON', 400);
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private sendError(response: http.ServerResponse, error: unknown) {
+    if (!(error instanceof BridgeError)) {
+      this.directory.log.error('HTTP API request failed:', (error as Error).message);
+    }
+    const status = error instanceof BridgeError ? error.status : 500;
+    if (!response.headersSent) {
+      this.send(response, status, { error: (error as Error).message });
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { connect } from 'mqtt';
+import type { MqttClient } from 'mqtt';
+
+import type { MqttBridgeConfig } from '../config.js';
+import type { TuyaAccessory } from '../platformAccessory.js';
+import { deviceReference, deviceStatus, writeDevice } from './devices.js';
+import type { DeviceDirectory } from './devices.js';
+
+const DEFAULT_TOPIC_PREFIX = 'localtuya';
+// Between attempts to reach the broker after losing it
+const RECONNECT_PERIOD = 5000;
+
+/**
+ * Reads the payload of a single value topic: JSON such as `true`, `3` or `"3"`, or else plain text
+ */
+function parseValue(text: string): unknown {
+  try {
+    const value = JSON.parse(text);
+    return ['boolean', 'number', 'string'].includes(typeof value) ? value : text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Publishes the state of every device to an MQTT broker and writes what is published to their
+ * set topics, for programs such as Node-RED. Topics, below the configured prefix:
+ *
+ * - `<device>/state`: the device's status as served by the HTTP API, retained
+ * - `<device>/set`: a JSON object of values keyed by data point or function, see parseWrite
+ * - `<device>/<dps or function>/set`: a single value, as JSON or plain text such as `on` or `30%`
+ * - `bridge/status`: `online` while the plugin is connected to the broker, `offline` otherwise, retained
+ *
+ * Devices are named by their id, or their node id for gateway sub-devices. Writes go over the
+ * plugin's own connection to the device, and the state is published whenever the device reports a change.
+ */
+export class MqttBridge {
+  private client?: MqttClient;
+  private readonly prefix: string;
+  // Stops observing each running device
+  private readonly observed: Map<TuyaAccessory, () => void> = new Map();
+  // Connection errors are only logged once until the broker is reached again
+  private errorLogged = false;
+
+  constructor(
+    private readonly directory: DeviceDirectory,
+    private readonly config: MqttBridgeConfig,
+  ) {
+    this.prefix = (config.topicPrefix || DEFAULT_TOPIC_PREFIX).replace(/\/+$/, '');
+  }
+
+  private topic(...levels: string[]): string {
+    return [this.prefix, ...levels].join('/');
+  }
+
+  start() {
+    const { url, username, password } = this.config;
+    const { log } = this.directory;
+    this.client = connect(url, {
+      username,
+      password,
+      reconnectPeriod: RECONNECT_PERIOD,
+      will: { topic: this.topic('bridge', 'status'), payload: Buffer.from('offline'), qos: 1, retain: true },
+    });
+
+    this.client.on('connect', () => {
+      log.info(`Connected to MQTT broker ${url}`);
+      this.errorLogged = false;
+      this.publish(this.topic('bridge', 'status'), 'online');
+      this.client!.subscribe([this.topic('+', 'set'), this.topic('+', '+', 'set')]);
+      // The broker may have lost the retained states while the plugin was away
+      for (const device of this.observed.keys()) {
+        this.publishState(device);
+      }
+    });
+    this.client.on('message', this.handleMessage.bind(this));
+    this.client.on('error', (error) => {
+      if (!this.errorLogged) {
+        log.warn(`MQTT broker ${url} error, retrying in the background:`, error.message);
+        this.errorLogged = true;
+      }
+    });
+
+    this.sync();
+  }
+
+  /**
+   * Follows the devices that are running now, after devices were added, reloaded or removed.
+   * The retained state of a removed device is cleared.
+   */
+  sync() {
+    const devices = this.directory.devices;
+    for (const [device, stopObserving] of this.observed) {
+      if (devices.includes(device)) {
+        continue;
+      }
+      stopObserving();
+      this.observed.delete(device);
+      if (!devices.some((other) => deviceReference(other) === deviceReference(device))) {
+        this.publish(this.topic(deviceReference(device), 'state'), '');
+      }
+    }
+
+    for (const device of devices) {
+      if (this.observed.has(device)) {
+        continue;
+      }
+      const publish = () => this.publishState(device);
+      this.observed.set(device, device.observe({ dpsChanged: publish, onlineChanged: publish }));
+      publish();
+    }
+  }
+
+  async stop() {
+    for (const stopObserving of this.observed.values()) {
+      stopObserving();
+    }
+    this.observed.clear();
+
+    // A clean disconnect does not send the will, so say goodbye first
+    if (this.client?.connected) {
+      await this.client.publishAsync(this.topic('bridge', 'status'), 'offline', { qos: 1, retain: true }).catch(() => undefined);
+    }
+    await this.client?.endAsync();
+  }
+
+  private publishState(device: TuyaAccessory) {
+    this.publish(this.topic(deviceReference(device), 'state'), JSON.stringify(deviceStatus(device)));
+  }
+
+  /**
+   * Publishes a retained message, dropped while the broker is unreachable since every state
+   * is published again on reconnecting
+   */
+  private publish(topic: string, payload: string) {
+    if (this.client?.connected) {
+      this.client.publish(topic, payload, { retain: true });
+    }
+  }
+
+  private handleMessage(topic: string, payload: Buffer) {
+    const { log } = this.directory;
+    const levels = topic.slice(this.prefix.length + 1).split('/');
+    if (levels.length < 2 || levels.length > 3 || levels[levels.length - 1] !== 'set') {
+      return;
+    }
+
+    const device = this.directory.findAccessory(levels[0]);
+    if (!device) {
+      log.warn(`MQTT message on ${topic} ignored, no device ${levels[0]} is configured`);
+      return;
+    }
+
+    const text = payload.toString('utf8');
+    let values: unknown;
+    if (levels.length === 3) {
+      values = { [levels[1]]: parseValue(text) };
+    } else {
+      try {
+        values = JSON.parse(text);
+      } catch {
+        log.warn(`MQTT message on ${topic} ignored, expected a JSON object`);
+        return;
+      }
+    }
+
+    writeDevice(device, values).catch((error: Error) => log.warn(`MQTT message on ${topic} not applied:`, error.message));
+  }
+}
@@ -0,0 +1,59 @@
+import type { DpsFunction, DpsMapping } from './dps.js';
+
+/**
+ * Operating modes of climate devices, in the order of the climateMode `values` and of
+ * the HomeKit TargetHeatingCoolingState values
+ */
+export type ClimateMode = 'off' | 'heat' | 'cool' | 'auto';
+
+export const CLIMATE_MODES: ClimateMode[] = ['off', 'heat', 'cool', 'auto'];
+
+/**
+ * What a climate device is doing right now, as far as the reported temperatures tell
+ */
+export type ClimateActivity = 'idle' | 'heating' | 'cooling';
+
+/**
+ * Modes the device can be set to. Off is available through the power data point or an off mode;
+ * without a mode data point the device only heats.
+ */
+export function supportedClimateModes(mapping: DpsMapping): ClimateMode[] {
+  const { climateOn, climateMode } = mapping;
+  if (!climateMode) {
+    return climateOn ? ['off', 'heat'] : ['heat'];
+  }
+  return CLIMATE_MODES.filter((mode, index) => (mode === 'off' && climateOn) || !!climateMode.values?.[index]);
+}
+
+/**
+ * Reads the mode data point, falling back to the current mode when it is absent or reports
+ * a mode that has no HomeKit equivalent, such as a holiday mode
+ */
+export function parseClimateMode(dps: Record<string, unknown>, fn: DpsFunction | undefined, currentMode: ClimateMode): ClimateMode {
+  if (!fn || !(String(fn.dps) in dps)) {
+    return currentMode;
+  }
+  const index = fn.values?.indexOf(dps[String(fn.dps)] as string) ?? -1;
+  return index > -1 && fn.values![index] !== '' ? CLIMATE_MODES[index] : currentMode;
+}
+
+/**
+ * Encodes a mode into the value its data point expects, undefined for modes the device lacks
+ */
+export function encodeClimateMode(fn: DpsFunction, mode: ClimateMode): string | undefined {
+  return fn.values?.[CLIMATE_MODES.indexOf(mode)] || undefined;
+}
+
+/**
+ * Works out whether the device is heating or cooling towards its setpoint. Auto mode
+ * heats when the room is below the setpoint, since most Tuya climate devices only heat.
+ */
+export function climateActivity(on: boolean, mode: ClimateMode, current: number, target: number): ClimateActivity {
+  if (!on || mode === 'off') {
+    return 'idle';
+  }
+  if (mode === 'cool') {
+    return current > target ? 'cooling' : 'idle';
+  }
+  return current < target ? 'heating' : 'idle';
+}
@@ -0,0 +1,299 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+
+import type { DeviceConfig } from './config.js';
+
+/**
+ * Tuya IoT platform data centers
+ */
+export type CloudRegion = 'cn' | 'us' | 'us-e' | 'eu' | 'eu-w' | 'in';
+
+export const CLOUD_ENDPOINTS: Record<CloudRegion, string> = {
+  'cn': 'https://openapi.tuyacn.com',
+  'us': 'https://openapi.tuyaus.com',
+  'us-e': 'https://openapi-ueaz.tuyaus.com',
+  'eu': 'https://openapi.tuyaeu.com',
+  'eu-w': 'https://openapi-weaz.tuyaeu.com',
+  'in': 'https://openapi.tuyain.com',
+};
+
+/**
+ * Credentials of a Tuya IoT platform cloud project, from the platform `cloud` config
+ */
+export interface CloudConfig {
+  accessId: string;
+  accessSecret: string;
+  region?: CloudRegion;
+  // Overrides the region's address, for example to point at a local test server
+  endpoint?: string;
+}
+
+/**
+ * A device as listed by the cloud project
+ */
+export interface CloudDevice {
+  id: string;
+  name: string;
+  local_key: string;
+  category: string;
+  product_name?: string;
+  ip?: string;
+  sub?: boolean;
+  node_id?: string;
+  gateway_id?: string;
+}
+
+export interface CloudCategory {
+  code: string;
+  name: string;
+}
+
+interface CloudResponse<T> {
+  success: boolean;
+  code?: number;
+  msg?: string;
+  result: T;
+}
+
+interface TokenResult {
+  access_token: string;
+  expire_time: number;
+}
+
+interface DeviceListResult {
+  devices: CloudDevice[];
+  has_more: boolean;
+  last_row_key?: string;
+}
+
+/**
+ * Device type used for each Tuya product category, anything else is left out of the import
+ */
+export const CATEGORY_TYPES: Record<string, string> = {
+  fsd: 'fanLight', // ceiling fan with light
+  fs: 'fan',
+  fskg: 'fan', // fan switch
+  dj: 'light',
+  xdd: 'light', // ceiling light
+  dd: 'colorLight', // light strip
+  dc: 'colorLight', // string lights
+  tgq: 'dimmer',
+  tgkg: 'dimmer',
+  kg: 'switch',
+  cz: 'outlet',
+  pc: 'switch', // power strip
+  cl: 'windowCovering', // curtain motor
+  clkg: 'windowCovering', // curtain switch
+  wk: 'thermostat',
+  wkf: 'thermostat', // radiator valve
+  qn: 'heater',
+  cs: 'dehumidifier',
+  wsdcg: 'temperatureSensor',
+  mcs: 'contactSensor', // door and window sensor
+  pir: 'motionSensor',
+  sj: 'leakSensor',
+  ywbj: 'smokeSensor',
+  wg2: 'gateway',
+  wfcon: 'gateway',
+};
+
+const PAGE_SIZE = 100;
+const EMPTY_BODY_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Error returned by the Tuya cloud API
+ */
+export class TuyaCloudError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'TuyaCloudError';
+  }
+}
+
+/**
+ * Minimal client for the Tuya IoT platform OpenAPI, used on demand to import device
+ * ids and local keys. Requests are signed with the HMAC-SHA256 scheme of the OpenAPI.
+ */
+export class TuyaCloud {
+  private readonly endpoint: string;
+  private accessToken?: string;
+  private tokenExpiry = 0;
+
+  constructor(private readonly config: CloudConfig) {
+    this.endpoint = (config.endpoint ?? CLOUD_ENDPOINTS[config.region ?? 'eu']).replace(/\/$/, '');
+  }
+
+  /**
+   * Signs a request: the method, body hash and path with sorted query make up the string to sign,
+   * which is prefixed with the client id, the access token (except when requesting one), time and nonce
+   */
+  sign(method: string, path: string, body: string, t: string, nonce: string, accessToken = ''): string {
+    const [pathname, query] = path.split('?');
+    const sortedQuery = query ? query.split('&').sort().join('&') : '';
+    const url = sortedQuery ? `${pathname}?${sortedQuery}` : pathname;
+    const bodyHash = body ? createHash('sha256').update(body).digest('hex') : EMPTY_BODY_HASH;
+    const stringToSign = [method.toUpperCase(), bodyHash, '', url].join('\n');
+
+    return createHmac('sha256', this.config.accessSecret)
+      .update(this.config.accessId + accessToken + t + nonce + stringToSign)
+      .digest('hex')
+      .toUpperCase();
+  }
+
+  private async send<T>(method: string, path: string, accessToken?: string, payload?: unknown): Promise<T> {
+    const body = payload === undefined ? '' : JSON.stringify(payload);
+    const t = Date.now().toString();
+    const nonce = randomUUID();
+
+    const response = await fetch(this.endpoint + path, {
+      method,
+      headers: {
+        'client_id': this.config.accessId,
+        'sign': this.sign(method, path, body, t, nonce, accessToken),
+        'sign_method': 'HMAC-SHA256',
+        't': t,
+        'nonce': nonce,
+        'Content-Type': 'application/json',
+        ...(accessToken ? { 'access_token': accessToken } : {}),
+      },
+      body: body || undefined,
+    });
+
+    if (!response.ok) {
+      throw new TuyaCloudError(`Tuya cloud request ${path} failed with HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as CloudResponse<T>;
+    if (!data.success) {
+      throw new TuyaCloudError(`Tuya cloud request ${path} failed: ${data.msg ?? 'unknown error'}`, data.code);
+    }
+    return data.result;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiry) {
+      return this.accessToken;
+    }
+
+    const token = await this.send<TokenResult>('GET', '/v1.0/token?grant_type=1');
+    this.accessToken = token.access_token;
+    // Renew a minute before the token runs out
+    this.tokenExpiry = Date.now() + (token.expire_time - 60) * 1000;
+    return this.accessToken;
+  }
+
+  async request<T>(method: string, path: string, payload?: unknown): Promise<T> {
+    return this.send<T>(method, path, await this.getAccessToken(), payload);
+  }
+
+  /**
+   * Lists every device linked to the cloud project, with its local key
+   */
+  async getDevices(): Promise<CloudDevice[]> {
+    const devices: CloudDevice[] = [];
+    let lastRowKey = '';
+
+    for (;;) {
+      const query = `size=${PAGE_SIZE}` + (lastRowKey ? `&last_row_key=${encodeURIComponent(lastRowKey)}` : '');
+      const page = await this.request<DeviceListResult>('GET', `/v1.0/iot-01/associated-users/devices?${query}`);
+      devices.push(...page.devices);
+      if (!page.has_more || !page.last_row_key) {
+        return devices;
+      }
+      lastRowKey = page.last_row_key;
+    }
+  }
+
+  /**
+   * Lists the product categories, to name the categories that have no default device type
+   */
+  async getCategories(): Promise<CloudCategory[]> {
+    return this.request<CloudCategory[]>('GET', '/v1.0/iot-03/device-categories');
+  }
+}
+
+/**
+ * Result of merging cloud devices into the configured ones
+ */
+export interface CloudImport {
+  devices: DeviceConfig[];
+  added: string[];
+  updated: string[];
+  // Devices left out, with the reason: the name of a category that has no default type,
+  // or a gateway that is missing or not configured as one
+  skipped: string[];
+}
+
+/**
+ * Merges devices from the cloud into the configured device list. Configured devices keep their
+ * settings and only pick up a changed local key; new devices are added with the default type
+ * of their category. Sub-devices are added under their gateway's entry, and skipped when the
+ * gateway is configured with another type, which cannot have sub-devices. Devices of a category
+ * without a default type are skipped, whether they connect directly or through a gateway.
+ */
+export function mergeCloudDevices(configured: DeviceConfig[], cloudDevices: CloudDevice[], categories: CloudCategory[] = []): CloudImport {
+  const devices: DeviceConfig[] = configured.map((device) => ({ ...device, subDevices: device.subDevices?.map((sub) => ({ ...sub })) }));
+  const result: CloudImport = { devices, added: [], updated: [], skipped: [] };
+  const categoryName = (code: string) => categories.find((category) => category.code === code)?.name ?? code;
+
+  // Gateways first, so their sub-devices have an entry to go under
+  const sorted = [...cloudDevices].sort((a, b) => Number(!!a.node_id) - Number(!!b.node_id));
+
+  for (const cloudDevice of sorted) {
+    if (cloudDevice.node_id && cloudDevice.gateway_id) {
+      const gateway = devices.find((device) => device.id === cloudDevice.gateway_id);
+      if (!gateway) {
+        result.skipped.push(`${cloudDevice.name} (gateway ${cloudDevice.gateway_id} not found)`);
+        continue;
+      }
+      if (gateway.type !== 'gateway') {
+        result.skipped.push(`${cloudDevice.name} (gateway ${gateway.name} is configured as type ${gateway.type ?? 'default'})`);
+        continue;
+      }
+      const subDevices = gateway.subDevices ?? (gateway.subDevices = []);
+      if (subDevices.some((sub) => sub.cid === cloudDevice.node_id)) {
+        continue;
+      }
+      const subType = CATEGORY_TYPES[cloudDevice.category];
+      if (!subType) {
+        result.skipped.push(`${cloudDevice.name} (${categoryName(cloudDevice.category)})`);
+        continue;
+      }
+      subDevices.push({ name: cloudDevice.name, cid: cloudDevice.node_id, type: subType });
+      result.added.push(cloudDevice.name);
+      continue;
+    }
+
+    const existing = devices.find((device) => device.id === cloudDevice.id);
+    if (existing) {
+      if (existing.key !== cloudDevice.local_key) {
+        existing.key = cloudDevice.local_key;
+        result.updated.push(existing.name);
+      }
+      continue;
+    }
+
+    const type = CATEGORY_TYPES[cloudDevice.category];
+    if (!type) {
+      result.skipped.push(`${cloudDevice.name} (${categoryName(cloudDevice.category)})`);
+      continue;
+    }
+
+    devices.push({
+      name: cloudDevice.name,
+      id: cloudDevice.id,
+      key: cloudDevice.local_key,
+      type,
+      ...(type === 'gateway' ? { subDevices: [] } : {}),
+    });
+    result.added.push(cloudDevice.name);
+  }
+
+  // Keep entries without sub-devices exactly as they were configured
+  for (const device of devices) {
+    if (device.subDevices === undefined) {
+      delete device.subDevices;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,104 @@
+/**
+ * A colour in HomeKit terms: hue in degrees (0-360), saturation and value in percent (0-100)
+ */
+export interface HsvColor {
+  hue: number;
+  saturation: number;
+  value: number;
+}
+
+/**
+ * Tuya colour data formats:
+ * - `hsv`: 12 hex characters `hhhhssssvvvv`, hue 0-360, saturation and value 0-1000
+ * - `legacy`: 14 hex characters `rrggbbhhhhssvv`, RGB 0-255, hue 0-360, saturation and value 0-255
+ */
+export type TuyaColorFormat = 'hsv' | 'legacy';
+
+const HSV_LENGTH = 12;
+const LEGACY_LENGTH = 14;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function hex(value: number, digits: number): string {
+  return Math.round(value).toString(16).padStart(digits, '0');
+}
+
+/**
+ * Converts a HomeKit colour to RGB components in the 0-255 range
+ */
+export function hsvToRgb({ hue, saturation, value }: HsvColor): [number, number, number] {
+  const s = saturation / 100;
+  const v = value / 100;
+  const c = v * s;
+  const h = (hue % 360) / 60;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = v - c;
+
+  const [r, g, b] =
+    h < 1 ? [c, x, 0] :
+      h < 2 ? [x, c, 0] :
+        h < 3 ? [0, c, x] :
+          h < 4 ? [0, x, c] :
+            h < 5 ? [x, 0, c] :
+              [c, 0, x];
+
+  return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+/**
+ * Works out the format of a colour data string from its length
+ */
+export function detectColorFormat(data: string): TuyaColorFormat | undefined {
+  if (data.length === HSV_LENGTH) {
+    return 'hsv';
+  }
+  if (data.length === LEGACY_LENGTH) {
+    return 'legacy';
+  }
+  return undefined;
+}
+
+/**
+ * Decodes a Tuya colour data string in either format into a HomeKit colour.
+ * Returns undefined for strings that are not valid colour data.
+ */
+export function decodeTuyaColor(data: string): HsvColor | undefined {
+  if (!/^[0-9a-f]+$/i.test(data)) {
+    return undefined;
+  }
+
+  switch (detectColorFormat(data)) {
+  case 'hsv':
+    return {
+      hue: clamp(parseInt(data.slice(0, 4), 16), 0, 360),
+      saturation: Math.round(clamp(parseInt(data.slice(4, 8), 16), 0, 1000) / 10),
+      value: Math.round(clamp(parseInt(data.slice(8, 12), 16), 0, 1000) / 10),
+    };
+  case 'legacy':
+    return {
+      hue: clamp(parseInt(data.slice(6, 10), 16), 0, 360),
+      saturation: Math.round((parseInt(data.slice(10, 12), 16) / 255) * 100),
+      value: Math.round((parseInt(data.slice(12, 14), 16) / 255) * 100),
+    };
+  default:
+    return undefined;
+  }
+}
+
+/**
+ * Encodes a HomeKit colour into a Tuya colour data string of the given format
+ */
+export function encodeTuyaColor(color: HsvColor, format: TuyaColorFormat): string {
+  const hue = clamp(Math.round(color.hue), 0, 360);
+  const saturation = clamp(color.saturation, 0, 100);
+  const value = clamp(color.value, 0, 100);
+
+  if (format === 'legacy') {
+    const [r, g, b] = hsvToRgb({ hue, saturation, value });
+    return hex(r, 2) + hex(g, 2) + hex(b, 2) + hex(hue, 4) + hex(saturation * 2.55, 2) + hex(value * 2.55, 2);
+  }
+
+  return hex(hue, 4) + hex(saturation * 10, 4) + hex(value * 10, 4);
+}
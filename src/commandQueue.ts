@@ -0,0 +1,94 @@
+/**
+ * Native data point values keyed by DPS number, as sent to the device
+ */
+export type DpsData = Record<string, boolean | number | string>;
+
+// Time to gather changes made together, such as hue and saturation, into one write
+const COALESCE_DELAY = 50;
+
+interface Waiter {
+  resolve: (reported: Record<string, unknown>) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Serialises the writes to one device. Values queued while a write is waiting or in flight
+ * are merged into the next write, so a burst of changes such as a dragged brightness slider
+ * becomes a single multi-DPS command carrying only the latest value of each data point.
+ */
+export class CommandQueue {
+  private pending: DpsData = {};
+  private waiters: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private sending = false;
+
+  /**
+   * @param send writes a batch and resolves with the values the device reported back
+   */
+  constructor(
+    private readonly send: (data: DpsData) => Promise<Record<string, unknown>>,
+    private readonly delay = COALESCE_DELAY,
+  ) {}
+
+  /**
+   * Queues values for the next write. Resolves with the values reported by the device once
+   * the write carrying them has been confirmed, or rejects if that write fails.
+   */
+  push(data: DpsData): Promise<Record<string, unknown>> {
+    Object.assign(this.pending, data);
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Rejects everything still waiting to be written
+   */
+  clear(error: Error) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = {};
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  private schedule() {
+    if (!this.sending && !this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.delay);
+    }
+  }
+
+  private async flush() {
+    this.timer = null;
+    const data = this.pending;
+    const waiters = this.waiters;
+    this.pending = {};
+    this.waiters = [];
+
+    if (waiters.length === 0) {
+      return;
+    }
+
+    this.sending = true;
+    try {
+      const reported = await this.send(data);
+      for (const waiter of waiters) {
+        waiter.resolve(reported);
+      }
+    } catch (error) {
+      for (const waiter of waiters) {
+        waiter.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    } finally {
+      this.sending = false;
+      // Anything queued during the write goes out next
+      if (this.waiters.length > 0) {
+        this.schedule();
+      }
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import type { DpsFunctionName, DpsOverrides } from './dps.js';
+
+/**
+ * Tuya LAN protocol version, or `auto` to probe the supported versions and cache the one that answers
+ */
+export type ProtocolVersion = '3.1' | '3.3' | '3.4' | '3.5' | 'auto';
+
+export const DEFAULT_PROTOCOL_VERSION = '3.3';
+
+// Order in which protocol versions are probed when auto-detecting, most common first
+export const PROTOCOL_VERSIONS = ['3.3', '3.4', '3.5', '3.1'];
+
+/**
+ * How much a device logs: `debug` adds how its connection and state are handled, `trace` also
+ * every message sent to and received from it, with the local key hidden
+ */
+export type DebugLevel = 'off' | 'debug' | 'trace';
+
+export const DEBUG_LEVELS: DebugLevel[] = ['off', 'debug', 'trace'];
+
+/**
+ * What a device does when power comes back after an outage: stay off, turn on, or return to
+ * the state it was in
+ */
+export type PowerOnState = 'off' | 'on' | 'memory';
+
+export const POWER_ON_STATES: PowerOnState[] = ['off', 'on', 'memory'];
+
+/**
+ * A single device entry, as found in the platform `devices` config or in devices.json
+ */
+export interface DeviceConfig {
+  name: string;
+  id: string;
+  key: string;
+  ip?: string;
+  type?: string;
+  profile?: string;
+  gangs?: number;
+  protocolVersion?: ProtocolVersion;
+  // Warmest and coolest white of lights with a colour temperature data point
+  warmKelvin?: number;
+  coolKelvin?: number;
+  // Coverings whose motor reports 0% as open
+  invertPosition?: boolean;
+  // Seconds a covering takes to travel from closed to open, for motors that do not report their position
+  travelTime?: number;
+  // Set on the device's powerOnState data point whenever it reports a different one
+  powerOnState?: PowerOnState;
+  // Minutes after being turned on that the device turns itself off, using its countdown data point
+  autoOff?: number;
+  // Changes to the profile, see DpsOverride
+  dps?: DpsOverrides;
+  // Overrides of the platform's polling settings for this device
+  polling?: PollingConfig;
+  // Overrides the platform's `debug` setting for this device
+  debug?: DebugLevel;
+  // Node id of a sub-device behind a gateway, which then provides the id, key and address
+  cid?: string;
+  // Sub-devices of a `gateway` entry
+  subDevices?: SubDeviceConfig[];
+}
+
+/**
+ * A sub-device listed under a gateway entry. The gateway's id, key, address and protocol
+ * version are used to reach it, so only its own node id and accessory settings are given.
+ */
+export type SubDeviceConfig = Omit<DeviceConfig, 'id' | 'key' | 'ip' | 'protocolVersion' | 'subDevices'> & { cid: string };
+
+/**
+ * Polling intervals, timeouts and retry backoff in seconds, set for all devices in the platform
+ * config and overridden per device. See PollSettings for what each one does.
+ */
+export interface PollingConfig {
+  interval?: number;
+  activeInterval?: number;
+  activeTime?: number;
+  idleInterval?: number;
+  idleTime?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  maxRetries?: number;
+  timeout?: number;
+  writeTimeout?: number;
+  detectTimeout?: number;
+}
+
+/**
+ * The platform config's polling settings, which also limit how many devices are polled at once
+ */
+export interface PlatformPollingConfig extends PollingConfig {
+  maxConcurrent?: number;
+}
+
+/**
+ * A scene from the platform config: a set of values written to one or more devices at once,
+ * exposed as a momentary switch
+ */
+export interface SceneConfig {
+  name: string;
+  // Also exposes a stateless button that is pressed each time the scene runs, to start HomeKit automations
+  button?: boolean;
+  actions: SceneAction[];
+}
+
+/**
+ * One value of a scene. The device is named by its `name` or `id`, the data point by a function
+ * of its DPS mapping or by `dps` number. Values for the same device are written together.
+ */
+export interface SceneAction {
+  device: string;
+  function?: DpsFunctionName;
+  dps?: number;
+  // Native value, or `true`/`false` for two-state functions and a percentage such as `30%` for integer ones
+  value: boolean | number | string;
+}
+
+/**
+ * Optional ways for other programs, such as dashboards and Node-RED, to read and control the
+ * devices through the plugin's own connections
+ */
+export interface BridgeConfig {
+  http?: HttpBridgeConfig;
+  mqtt?: MqttBridgeConfig;
+}
+
+export interface HttpBridgeConfig {
+  port: number;
+  // Address to listen on, only this machine by default
+  host?: string;
+  // Required as a bearer token on every request when set
+  token?: string;
+}
+
+export interface MqttBridgeConfig {
+  // Broker to connect to, such as mqtt://localhost:1883
+  url: string;
+  username?: string;
+  password?: string;
+  // First level of every topic, `localtuya` by default
+  topicPrefix?: string;
+}
@@ -0,0 +1,313 @@
+import type { DeviceConfig } from './config.js';
+import type { DpsFunctionName } from './dps.js';
+import { BatteryHandler } from './handlers/batteryHandler.js';
+import { CoverHandler } from './handlers/coverHandler.js';
+import { DehumidifierHandler } from './handlers/dehumidifierHandler.js';
+import { DeviceSettingsHandler } from './handlers/deviceSettingsHandler.js';
+import { DetectionHandler } from './handlers/detectionHandler.js';
+import { EnergyHandler } from './handlers/energyHandler.js';
+import { FanHandler } from './handlers/fanHandler.js';
+import { HeaterCoolerHandler } from './handlers/heaterCoolerHandler.js';
+import { LightHandler } from './handlers/lightHandler.js';
+import { MeasurementHandler } from './handlers/measurementHandler.js';
+import { SwitchHandler } from './handlers/switchHandler.js';
+import { ThermostatHandler } from './handlers/thermostatHandler.js';
+import type { AccessoryHandler, TuyaAccessory } from './platformAccessory.js';
+
+/**
+ * Describes how a device `type` from the config is exposed to HomeKit
+ */
+export interface DeviceTypeDefinition {
+  title: string;
+  // DPS profile used when the device config does not name one
+  profile: string;
+  // Functions the handlers can use, offered in the DPS mapping editor
+  functions: DpsFunctionName[];
+  manufacturer: string;
+  model: string;
+  // Battery devices that sleep between reports: their state is only pushed, never polled,
+  // and a closed connection does not mark them offline
+  pushOnly?: boolean;
+  createHandlers(tuya: TuyaAccessory): AccessoryHandler[];
+}
+
+export const DEFAULT_DEVICE_TYPE = 'fanLight';
+
+// A gateway entry is not an accessory itself, each of its `subDevices` becomes one
+export const GATEWAY_DEVICE_TYPE = 'gateway';
+
+const MAX_GANGS = 6;
+
+const FAN_FUNCTIONS: DpsFunctionName[] = ['fanOn', 'fanSpeed', 'fanDirection', 'fanBreeze', 'fanSleep'];
+const LIGHT_FUNCTIONS: DpsFunctionName[] = ['lightOn', 'lightBrightness', 'lightColorTemp'];
+const SWITCH_FUNCTIONS: DpsFunctionName[] = ['switch1', 'switch2', 'switch3', 'switch4', 'switch5', 'switch6'];
+const ENERGY_FUNCTIONS: DpsFunctionName[] = ['addElectricity', 'current', 'power', 'voltage'];
+const CLIMATE_FUNCTIONS: DpsFunctionName[] = ['climateOn', 'targetTemperature', 'currentTemperature', 'climateMode', 'childLock'];
+const BATTERY_FUNCTIONS: DpsFunctionName[] = ['batteryLevel', 'batteryLow'];
+const SETTINGS_FUNCTIONS: DpsFunctionName[] = ['childLock', 'powerOnState', 'countdown'];
+
+/**
+ * Creates one Switch service per gang, named after the device and numbered when there is more than one
+ */
+function createSwitchHandlers(tuya: TuyaAccessory): AccessoryHandler[] {
+  const { name, gangs } = tuya.deviceConfig;
+  const count = Math.max(1, Math.min(MAX_GANGS, gangs ?? 1));
+  const handlers: AccessoryHandler[] = [];
+
+  for (let gang = 1; gang <= count; gang++) {
+    const fn = `switch${gang}` as DpsFunctionName;
+    if (!tuya.dpsMapping[fn]) {
+      tuya.platform.log.warn(`Device ${name} has no DPS mapped for ${fn}, skipping gang ${gang}`);
+      continue;
+    }
+    const serviceName = count > 1 ? `${name} ${gang}` : name;
+    handlers.push(new SwitchHandler(tuya, fn, tuya.platform.Service.Switch, serviceName, fn));
+  }
+
+  return handlers;
+}
+
+/**
+ * Creates a Fanv2 service, plus a Switch for each fan mode the device maps
+ */
+function createFanHandlers(tuya: TuyaAccessory, name: string): AccessoryHandler[] {
+  const { Switch } = tuya.platform.Service;
+  const handlers: AccessoryHandler[] = [new FanHandler(tuya, name)];
+
+  if (tuya.dpsMapping.fanBreeze) {
+    handlers.push(new SwitchHandler(tuya, 'fanBreeze', Switch, `${name} Breeze`, 'fanBreeze'));
+  }
+  if (tuya.dpsMapping.fanSleep) {
+    handlers.push(new SwitchHandler(tuya, 'fanSleep', Switch, `${name} Sleep`, 'fanSleep'));
+  }
+
+  return handlers;
+}
+
+/**
+ * Creates an Outlet service, with energy metering when the device maps any measurement
+ */
+function createOutletHandlers(tuya: TuyaAccessory): AccessoryHandler[] {
+  const { name } = tuya.deviceConfig;
+  const handlers: AccessoryHandler[] = [new SwitchHandler(tuya, 'switch1', tuya.platform.Service.Outlet, name)];
+  const { current, power, voltage } = tuya.dpsMapping;
+
+  if (current || power || voltage) {
+    handlers.push(new EnergyHandler(tuya, name));
+  }
+
+  return handlers;
+}
+
+/**
+ * Adds a Battery service to the sensor's own handlers when the device maps a battery function
+ */
+function withBattery(tuya: TuyaAccessory, handlers: AccessoryHandler[]): AccessoryHandler[] {
+  if (tuya.dpsMapping.batteryLevel || tuya.dpsMapping.batteryLow) {
+    handlers.push(new BatteryHandler(tuya, tuya.deviceConfig.name + ' Battery'));
+  }
+  return handlers;
+}
+
+/**
+ * Adds the child lock, power-on state and auto-off settings to the device's own handlers when it maps
+ * or configures any of them
+ */
+function withDeviceSettings(tuya: TuyaAccessory, handlers: AccessoryHandler[]): AccessoryHandler[] {
+  const { childLock, powerOnState, countdown } = tuya.dpsMapping;
+  if (childLock || powerOnState || countdown || tuya.deviceConfig.powerOnState || tuya.deviceConfig.autoOff) {
+    handlers.push(new DeviceSettingsHandler(tuya));
+  }
+  return handlers;
+}
+
+/**
+ * Creates a TemperatureSensor and a HumiditySensor, each when the device maps its measurement
+ */
+function createClimateSensorHandlers(tuya: TuyaAccessory): AccessoryHandler[] {
+  const { Service, Characteristic } = tuya.platform;
+  const { name } = tuya.deviceConfig;
+  const handlers: AccessoryHandler[] = [];
+
+  if (tuya.dpsMapping.temperature) {
+    handlers.push(new MeasurementHandler(tuya, 'temperature', Service.TemperatureSensor, Characteristic.CurrentTemperature, name));
+  }
+  if (tuya.dpsMapping.humidity) {
+    handlers.push(new MeasurementHandler(tuya, 'humidity', Service.HumiditySensor, Characteristic.CurrentRelativeHumidity, name));
+  }
+
+  return withBattery(tuya, handlers);
+}
+
+/**
+ * Registry of supported device types, keyed by the `type` field of the device config
+ */
+export const DEVICE_TYPES: Record<string, DeviceTypeDefinition> = {
+  fanLight: {
+    title: 'Fan with Light',
+    profile: 'designersFountain',
+    functions: [...FAN_FUNCTIONS, ...LIGHT_FUNCTIONS, ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Designers Fountain',
+    model: 'Ceiling Fan DF',
+    createHandlers: (tuya) => withDeviceSettings(tuya, [
+      ...createFanHandlers(tuya, tuya.deviceConfig.name + ' Fan'),
+      new LightHandler(tuya, tuya.deviceConfig.name + ' Light'),
+    ]),
+  },
+  fan: {
+    title: 'Fan',
+    profile: 'fan',
+    functions: [...FAN_FUNCTIONS, ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Fan',
+    createHandlers: (tuya) => withDeviceSettings(tuya, createFanHandlers(tuya, tuya.deviceConfig.name)),
+  },
+  light: {
+    title: 'Light',
+    profile: 'light',
+    functions: [...LIGHT_FUNCTIONS, ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Light',
+    createHandlers: (tuya) => withDeviceSettings(tuya, [new LightHandler(tuya, tuya.deviceConfig.name)]),
+  },
+  colorLight: {
+    title: 'Colour Light',
+    profile: 'colorLight',
+    functions: [...LIGHT_FUNCTIONS, 'lightMode', 'lightColor', ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Colour Light',
+    createHandlers: (tuya) => withDeviceSettings(tuya, [new LightHandler(tuya, tuya.deviceConfig.name)]),
+  },
+  dimmer: {
+    title: 'Dimmer',
+    profile: 'dimmer',
+    functions: [...LIGHT_FUNCTIONS, ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Dimmer',
+    createHandlers: (tuya) => withDeviceSettings(tuya, [new LightHandler(tuya, tuya.deviceConfig.name)]),
+  },
+  switch: {
+    title: 'Switch',
+    profile: 'switch',
+    functions: [...SWITCH_FUNCTIONS, ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Switch',
+    createHandlers: (tuya) => withDeviceSettings(tuya, createSwitchHandlers(tuya)),
+  },
+  outlet: {
+    title: 'Outlet',
+    profile: 'switch',
+    functions: ['switch1', ...ENERGY_FUNCTIONS, ...SETTINGS_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Outlet',
+    createHandlers: (tuya) => withDeviceSettings(tuya, createOutletHandlers(tuya)),
+  },
+  windowCovering: {
+    title: 'Window Covering',
+    profile: 'curtain',
+    functions: ['coverControl', 'coverPosition', 'coverState'],
+    manufacturer: 'Tuya',
+    model: 'Curtain Motor',
+    createHandlers: (tuya) => [new CoverHandler(tuya, tuya.deviceConfig.name)],
+  },
+  thermostat: {
+    title: 'Thermostat',
+    profile: 'thermostat',
+    functions: CLIMATE_FUNCTIONS,
+    manufacturer: 'Tuya',
+    model: 'Thermostat',
+    createHandlers: (tuya) => [new ThermostatHandler(tuya, tuya.deviceConfig.name)],
+  },
+  heater: {
+    title: 'Heater',
+    profile: 'heater',
+    functions: CLIMATE_FUNCTIONS,
+    manufacturer: 'Tuya',
+    model: 'Heater',
+    createHandlers: (tuya) => [new HeaterCoolerHandler(tuya, tuya.deviceConfig.name)],
+  },
+  dehumidifier: {
+    title: 'Dehumidifier',
+    profile: 'dehumidifier',
+    functions: ['climateOn', 'targetHumidity', 'humidity', 'childLock'],
+    manufacturer: 'Tuya',
+    model: 'Dehumidifier',
+    createHandlers: (tuya) => [new DehumidifierHandler(tuya, tuya.deviceConfig.name)],
+  },
+  temperatureSensor: {
+    title: 'Temperature & Humidity Sensor',
+    profile: 'temperatureSensor',
+    functions: ['temperature', 'humidity', ...BATTERY_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Temperature & Humidity Sensor',
+    pushOnly: true,
+    createHandlers: createClimateSensorHandlers,
+  },
+  contactSensor: {
+    title: 'Contact Sensor',
+    profile: 'contactSensor',
+    functions: ['contact', ...BATTERY_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Contact Sensor',
+    pushOnly: true,
+    createHandlers: (tuya) => {
+      const { Service, Characteristic } = tuya.platform;
+      const { CONTACT_DETECTED, CONTACT_NOT_DETECTED } = Characteristic.ContactSensorState;
+      return withBattery(tuya, [
+        new DetectionHandler(tuya, 'contact', Service.ContactSensor, Characteristic.ContactSensorState,
+          [CONTACT_DETECTED, CONTACT_NOT_DETECTED], tuya.deviceConfig.name),
+      ]);
+    },
+  },
+  motionSensor: {
+    title: 'Motion Sensor',
+    profile: 'motionSensor',
+    functions: ['motion', ...BATTERY_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Motion Sensor',
+    pushOnly: true,
+    createHandlers: (tuya) => {
+      const { Service, Characteristic } = tuya.platform;
+      return withBattery(tuya, [
+        new DetectionHandler(tuya, 'motion', Service.MotionSensor, Characteristic.MotionDetected, [false, true], tuya.deviceConfig.name),
+      ]);
+    },
+  },
+  leakSensor: {
+    title: 'Leak Sensor',
+    profile: 'leakSensor',
+    functions: ['leak', ...BATTERY_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Leak Sensor',
+    pushOnly: true,
+    createHandlers: (tuya) => {
+      const { Service, Characteristic } = tuya.platform;
+      const { LEAK_NOT_DETECTED, LEAK_DETECTED } = Characteristic.LeakDetected;
+      return withBattery(tuya, [
+        new DetectionHandler(tuya, 'leak', Service.LeakSensor, Characteristic.LeakDetected, [LEAK_NOT_DETECTED, LEAK_DETECTED], tuya.deviceConfig.name),
+      ]);
+    },
+  },
+  smokeSensor: {
+    title: 'Smoke Sensor',
+    profile: 'smokeSensor',
+    functions: ['smoke', ...BATTERY_FUNCTIONS],
+    manufacturer: 'Tuya',
+    model: 'Smoke Sensor',
+    pushOnly: true,
+    createHandlers: (tuya) => {
+      const { Service, Characteristic } = tuya.platform;
+      const { SMOKE_NOT_DETECTED, SMOKE_DETECTED } = Characteristic.SmokeDetected;
+      return withBattery(tuya, [
+        new DetectionHandler(tuya, 'smoke', Service.SmokeSensor, Characteristic.SmokeDetected, [SMOKE_NOT_DETECTED, SMOKE_DETECTED], tuya.deviceConfig.name),
+      ]);
+    },
+  },
+};
+
+/**
+ * Looks up the definition for a device, falling back to the default type when none is configured
+ */
+export function getDeviceType(device: DeviceConfig): DeviceTypeDefinition | undefined {
+  return DEVICE_TYPES[device.type ?? DEFAULT_DEVICE_TYPE];
+}
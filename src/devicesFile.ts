@@ -0,0 +1,71 @@
+import fs from 'fs';
+import type { Logging } from 'homebridge';
+
+// How often the file is checked for changes
+const WATCH_INTERVAL = 2000;
+
+/**
+ * The optional devices.json file: a list of device entries in the same format as the
+ * platform `devices` config, picked up again whenever the file changes.
+ */
+export class DevicesFile {
+  private watching = false;
+
+  constructor(
+    private readonly log: Logging,
+    public readonly path: string,
+  ) {}
+
+  /**
+   * Reads the device entries. A missing file holds no devices; a file that cannot be read
+   * or parsed is reported and returns undefined, so the caller can keep what it had.
+   */
+  read(): unknown[] | undefined {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      this.log.error(`Could not read ${this.path}:`, (error as Error).message);
+      return undefined;
+    }
+
+    try {
+      const entries = JSON.parse(text);
+      if (!Array.isArray(entries)) {
+        this.log.error(`${this.path} must contain a list of devices`);
+        return undefined;
+      }
+      return entries;
+    } catch (error) {
+      this.log.error(`${this.path} is not valid JSON:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Calls back whenever the file is created, changed or removed
+   */
+  watch(onChange: () => void) {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+    // Polling keeps working when editors replace the file or it does not exist yet
+    fs.watchFile(this.path, { interval: WATCH_INTERVAL, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        this.log.info(`${this.path} changed, reloading devices`);
+        onChange();
+      }
+    });
+  }
+
+  stop() {
+    if (this.watching) {
+      fs.unwatchFile(this.path);
+      this.watching = false;
+    }
+  }
+}
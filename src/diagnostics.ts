@@ -0,0 +1,168 @@
+import { readFileSync } from 'fs';
+
+import { DEBUG_LEVELS } from './config.js';
+import type { DebugLevel, DeviceConfig } from './config.js';
+import type { DpsMapping } from './dps.js';
+import type { DeviceState } from './platformAccessory.js';
+
+// Written to the Homebridge storage path, where the settings panel reads it
+export const DIAGNOSTICS_FILE = 'localtuya-diagnostics.json';
+
+// Properties whose values are never logged or written to the diagnostics
+const SECRET_PROPERTIES = new Set(['key', 'localKey', 'accessSecret', 'password', 'token']);
+const REDACTED = '[redacted]';
+
+/**
+ * The debug level of a device from its own setting and the platform's, the first one given wins.
+ * The platform's `debug` may also be `true`, which means `debug`.
+ */
+export function resolveDebugLevel(...settings: unknown[]): DebugLevel {
+  for (const setting of settings) {
+    if (typeof setting === 'boolean') {
+      return setting ? 'debug' : 'off';
+    }
+    if (DEBUG_LEVELS.includes(setting as DebugLevel)) {
+      return setting as DebugLevel;
+    }
+  }
+  return 'off';
+}
+
+/**
+ * A copy of a value fit to be shared: properties holding keys, passwords and tokens are replaced,
+ * and so is each of the given secrets wherever it appears in text. Buffers are shown as hex.
+ */
+export function redact<T>(value: T, secrets: string[] = []): T {
+  const hidden = secrets.filter(Boolean);
+  const copy = (item: unknown): unknown => {
+    if (typeof item === 'string') {
+      return hidden.reduce((text, secret) => text.split(secret).join(REDACTED), item);
+    }
+    if (Buffer.isBuffer(item)) {
+      return item.toString('hex');
+    }
+    if (Array.isArray(item)) {
+      return item.map(copy);
+    }
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item).map(([name, property]) => [
+        name,
+        SECRET_PROPERTIES.has(name) && property !== undefined && property !== '' ? REDACTED : copy(property),
+      ]));
+    }
+    return item;
+  };
+  return copy(value) as T;
+}
+
+export function isTimeout(error: Error): boolean {
+  return /timed? ?out|ETIMEDOUT/i.test(error.message);
+}
+
+/**
+ * How requests to a device have fared since Homebridge started
+ */
+export interface HealthSnapshot {
+  // Status queries and writes the device answered
+  successes: number;
+  // Requests that timed out, and those that failed in any other way
+  timeouts: number;
+  failures: number;
+  // Times the device came back after being offline
+  reconnects: number;
+  // Mean milliseconds from sending a request to its answer, over the answered ones
+  averageLatency?: number;
+  lastSuccess?: string;
+  lastError?: string;
+  lastErrorTime?: string;
+}
+
+/**
+ * Counts the outcome and latency of the requests made to one device
+ */
+export class HealthCounters {
+  private successes = 0;
+  private timeouts = 0;
+  private failures = 0;
+  private reconnects = 0;
+  private totalLatency = 0;
+  private lastSuccess?: number;
+  private lastError?: string;
+  private lastErrorTime?: number;
+
+  recordSuccess(latency: number, now = Date.now()) {
+    this.successes++;
+    this.totalLatency += latency;
+    this.lastSuccess = now;
+  }
+
+  recordFailure(error: Error, now = Date.now()) {
+    if (isTimeout(error)) {
+      this.timeouts++;
+    } else {
+      this.failures++;
+    }
+    this.lastError = error.message;
+    this.lastErrorTime = now;
+  }
+
+  recordReconnect() {
+    this.reconnects++;
+  }
+
+  snapshot(): HealthSnapshot {
+    const time = (ms?: number) => ms === undefined ? undefined : new Date(ms).toISOString();
+    return {
+      successes: this.successes,
+      timeouts: this.timeouts,
+      failures: this.failures,
+      reconnects: this.reconnects,
+      averageLatency: this.successes > 0 ? Math.round(this.totalLatency / this.successes) : undefined,
+      lastSuccess: time(this.lastSuccess),
+      lastError: this.lastError,
+      lastErrorTime: time(this.lastErrorTime),
+    };
+  }
+}
+
+/**
+ * Everything about one device that helps with a bug report, with its local key hidden
+ */
+export interface DeviceDiagnostics {
+  name: string;
+  type: string;
+  // Protocol version and address in use, which may come from auto-detection and LAN discovery
+  protocolVersion?: string;
+  ip?: string;
+  debug: DebugLevel;
+  config: DeviceConfig;
+  mapping: DpsMapping;
+  state: DeviceState;
+  health: HealthSnapshot;
+  dps: Record<string, unknown>;
+}
+
+/**
+ * The diagnostics dump users attach to bug reports
+ */
+export interface Diagnostics {
+  generated: string;
+  plugin?: string;
+  homebridge: string;
+  node: string;
+  system: string;
+  // The platform config without its device entries, which are listed with their devices
+  settings: Record<string, unknown>;
+  devices: DeviceDiagnostics[];
+}
+
+/**
+ * Version of the plugin from its package.json, next to the compiled code
+ */
+export function pluginVersion(): string | undefined {
+  try {
+    return JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8')).version;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,178 @@
+import { createDecipheriv, createHash } from 'crypto';
+import dgram from 'dgram';
+import type { Logging } from 'homebridge';
+
+/**
+ * A device found through its LAN broadcast
+ */
+export interface DiscoveredDevice {
+  id: string;
+  ip: string;
+  version?: string;
+  productKey?: string;
+}
+
+// Devices broadcast plain JSON on 6666 (3.1), ECB encrypted JSON on 6667 (3.3, 3.4)
+// and GCM encrypted JSON on 7000 (3.5)
+export const DISCOVERY_PORTS = [6666, 6667, 7000];
+
+// All devices encrypt their broadcasts with the same well-known key
+const UDP_KEY = createHash('md5').update('yGAdlopoPVldABfn', 'utf8').digest();
+
+const PREFIX_55AA = 0x000055AA;
+const PREFIX_6699 = 0x00006699;
+const HEADER_SIZE_55AA = 16;
+const HEADER_SIZE_6699 = 18;
+
+/**
+ * Parses the JSON broadcast payload, skipping any leading return code bytes
+ */
+function parsePayload(payload: Buffer): DiscoveredDevice | undefined {
+  const start = payload.indexOf('{');
+  if (start === -1 || start > 4) {
+    return undefined;
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(payload.subarray(start).toString('utf8'));
+  } catch (error) {
+    return undefined;
+  }
+
+  if (typeof data.gwId !== 'string' || typeof data.ip !== 'string') {
+    return undefined;
+  }
+
+  return {
+    id: data.gwId,
+    ip: data.ip,
+    version: typeof data.version === 'string' ? data.version : undefined,
+    productKey: typeof data.productKey === 'string' ? data.productKey : undefined,
+  };
+}
+
+function decode55AA(packet: Buffer): DiscoveredDevice | undefined {
+  const length = packet.readUInt32BE(12);
+  // The length covers the payload, CRC and suffix
+  if (packet.length < HEADER_SIZE_55AA + length || length < 8) {
+    return undefined;
+  }
+
+  let payload = packet.subarray(HEADER_SIZE_55AA, HEADER_SIZE_55AA + length - 8);
+  // Messages from devices start with a 4 byte return code
+  if (payload.length >= 4 && (payload.readUInt32BE(0) & 0xFFFFFF00) === 0) {
+    payload = payload.subarray(4);
+  }
+
+  // Protocol 3.1 broadcasts are not encrypted
+  const plain = parsePayload(payload);
+  if (plain) {
+    return plain;
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-128-ecb', UDP_KEY, null);
+    return parsePayload(Buffer.concat([decipher.update(payload), decipher.final()]));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function decode6699(packet: Buffer): DiscoveredDevice | undefined {
+  const length = packet.readUInt32BE(14);
+  // The length covers the IV, payload and tag
+  if (packet.length < HEADER_SIZE_6699 + length + 4 || length < 28) {
+    return undefined;
+  }
+
+  const header = packet.subarray(4, HEADER_SIZE_6699);
+  const iv = packet.subarray(HEADER_SIZE_6699, HEADER_SIZE_6699 + 12);
+  const tag = packet.subarray(HEADER_SIZE_6699 + length - 16, HEADER_SIZE_6699 + length);
+  const payload = packet.subarray(HEADER_SIZE_6699 + 12, HEADER_SIZE_6699 + length - 16);
+
+  try {
+    const decipher = createDecipheriv('aes-128-gcm', UDP_KEY, iv);
+    decipher.setAuthTag(tag);
+    decipher.setAAD(header);
+    return parsePayload(Buffer.concat([decipher.update(payload), decipher.final()]));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Decodes a Tuya discovery broadcast into the device id, address and protocol version.
+ * Returns undefined for anything that is not a valid broadcast.
+ */
+export function decodeBroadcast(packet: Buffer): DiscoveredDevice | undefined {
+  if (packet.length < 24) {
+    return undefined;
+  }
+
+  switch (packet.readUInt32BE(0)) {
+  case PREFIX_55AA:
+    return decode55AA(packet);
+  case PREFIX_6699:
+    return decode6699(packet);
+  default:
+    return undefined;
+  }
+}
+
+/**
+ * Listens for the broadcasts Tuya devices send every few seconds and reports
+ * each device the first time it is seen and whenever its address or version changes.
+ * Every other broadcast goes to `onSeen`, which tells when a sleeping device wakes up.
+ */
+export class TuyaDiscovery {
+  public readonly devices: Map<string, DiscoveredDevice> = new Map();
+  private readonly sockets: dgram.Socket[] = [];
+
+  constructor(
+    private readonly log: Logging,
+    private readonly onDevice: (device: DiscoveredDevice) => void,
+    private readonly onSeen?: (device: DiscoveredDevice) => void,
+  ) {}
+
+  start() {
+    for (const port of DISCOVERY_PORTS) {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      socket.on('message', this.handleMessage.bind(this));
+      socket.on('error', (error) => {
+        this.log.warn(`Discovery on UDP port ${port} failed:`, error.message);
+        socket.close();
+      });
+      socket.bind(port);
+      this.sockets.push(socket);
+    }
+  }
+
+  stop() {
+    for (const socket of this.sockets.splice(0)) {
+      socket.removeAllListeners('message');
+      try {
+        socket.close();
+      } catch (error) {
+        // Already closed after an error
+      }
+    }
+  }
+
+  private handleMessage(packet: Buffer) {
+    const device = decodeBroadcast(packet);
+    if (!device) {
+      return;
+    }
+
+    const known = this.devices.get(device.id);
+    if (known && known.ip === device.ip && known.version === device.version) {
+      this.onSeen?.(device);
+      return;
+    }
+
+    this.devices.set(device.id, device);
+    this.log.debug(`Discovered device ${device.id} at ${device.ip} (protocol ${device.version ?? 'unknown'})`);
+    this.onDevice(device);
+  }
+}
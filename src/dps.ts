@@ -0,0 +1,456 @@
+/**
+ * The kind of value a Tuya data point (DPS) carries on the wire
+ */
+export type DpsValueType = 'boolean' | 'integer' | 'enum' | 'color';
+
+/**
+ * Describes the data point that drives one accessory function, its value type
+ * and, for integer data points, the native range reported by the device.
+ * Two-state functions backed by an enum data point list the value for "off"
+ * and the value for "on" in `values`, for example `['forward', 'reverse']`.
+ * Colour data points carry a hex string, see color.ts for the formats.
+ * Stepped functions such as fan speed list every step of an enum data point in
+ * `values`, or give the number of evenly spaced `steps` in an integer range.
+ * Measurements such as power or voltage give the `scale` that turns the native
+ * integer into the unit HomeKit shows, for example 0.1 for a value in tenths of a watt.
+ * Setpoints such as a target temperature are scaled the same way, with `min` and `max`
+ * in native units and the smallest change HomeKit offers as `step` in display units.
+ */
+export interface DpsFunction {
+  dps: number;
+  type: DpsValueType;
+  min?: number;
+  max?: number;
+  values?: string[];
+  steps?: number;
+  scale?: number;
+  step?: number;
+}
+
+/**
+ * Maps each accessory function to the data point that drives it
+ */
+export interface DpsMapping {
+  fanOn?: DpsFunction;
+  fanSpeed?: DpsFunction;
+  lightOn?: DpsFunction;
+  lightBrightness?: DpsFunction;
+  // Off/on is clockwise/counter-clockwise
+  fanDirection?: DpsFunction;
+  // Off/on is normal/natural breeze mode
+  fanBreeze?: DpsFunction;
+  // Off/on is normal/sleep mode
+  fanSleep?: DpsFunction;
+  // Native range runs from warmest to coolest white
+  lightColorTemp?: DpsFunction;
+  // Off/on is white/colour work mode
+  lightMode?: DpsFunction;
+  lightColor?: DpsFunction;
+  // Energy counter in kWh after scaling, grows as the load draws power
+  addElectricity?: DpsFunction;
+  // Measurements in A, W and V after scaling
+  current?: DpsFunction;
+  power?: DpsFunction;
+  voltage?: DpsFunction;
+  // Measurements in °C and % after scaling
+  temperature?: DpsFunction;
+  humidity?: DpsFunction;
+  // Off/on is closed/open
+  contact?: DpsFunction;
+  // Off/on is no motion/motion detected
+  motion?: DpsFunction;
+  // Off/on is normal/alarm
+  leak?: DpsFunction;
+  smoke?: DpsFunction;
+  // Native range runs from empty to full
+  batteryLevel?: DpsFunction;
+  // Off/on is normal/low, for devices that only report a battery state
+  batteryLow?: DpsFunction;
+  // Motor command, `values` lists the commands to open, stop and close
+  coverControl?: DpsFunction;
+  // Target and current position, native range runs from closed to open
+  coverPosition?: DpsFunction;
+  coverState?: DpsFunction;
+  climateOn?: DpsFunction;
+  // Setpoint and measurement in °C after scaling
+  targetTemperature?: DpsFunction;
+  currentTemperature?: DpsFunction;
+  // `values` lists the device's mode for off, heat, cool and auto, empty for modes it lacks
+  climateMode?: DpsFunction;
+  // Setpoint in % after scaling
+  targetHumidity?: DpsFunction;
+  // Off/on is unlocked/locked
+  childLock?: DpsFunction;
+  // `values` lists the device's setting for off, on and memory after a power outage
+  powerOnState?: DpsFunction;
+  // Time left until the device turns off, in seconds after scaling, 0 when no countdown runs
+  countdown?: DpsFunction;
+  switch1?: DpsFunction;
+  switch2?: DpsFunction;
+  switch3?: DpsFunction;
+  switch4?: DpsFunction;
+  switch5?: DpsFunction;
+  switch6?: DpsFunction;
+}
+
+export type DpsFunctionName = keyof DpsMapping;
+
+/**
+ * Built-in mapping profiles, keyed by profile name.
+ */
+export const DPS_PROFILES: Record<string, DpsMapping> = {
+  // Designers Fountain ceiling fan with light
+  designersFountain: {
+    fanOn: { dps: 51, type: 'boolean' },
+    fanSpeed: { dps: 53, type: 'integer', min: 1, max: 6 },
+    lightOn: { dps: 20, type: 'boolean' },
+    lightBrightness: { dps: 22, type: 'integer', min: 10, max: 1000 },
+  },
+  // Standalone Tuya fan
+  fan: {
+    fanOn: { dps: 1, type: 'boolean' },
+    fanSpeed: { dps: 3, type: 'integer', min: 1, max: 5 },
+  },
+  // Tuya bulb or light strip
+  light: {
+    lightOn: { dps: 20, type: 'boolean' },
+    lightBrightness: { dps: 22, type: 'integer', min: 10, max: 1000 },
+  },
+  // Tuya RGB bulb or light strip with tunable white
+  colorLight: {
+    lightOn: { dps: 20, type: 'boolean' },
+    lightMode: { dps: 21, type: 'enum', values: ['white', 'colour'] },
+    lightBrightness: { dps: 22, type: 'integer', min: 10, max: 1000 },
+    lightColorTemp: { dps: 23, type: 'integer', min: 0, max: 1000 },
+    lightColor: { dps: 24, type: 'color' },
+  },
+  // Older Tuya RGB bulb using the 14 character colour format
+  colorLightLegacy: {
+    lightOn: { dps: 1, type: 'boolean' },
+    lightMode: { dps: 2, type: 'enum', values: ['white', 'colour'] },
+    lightBrightness: { dps: 3, type: 'integer', min: 25, max: 255 },
+    lightColorTemp: { dps: 4, type: 'integer', min: 0, max: 255 },
+    lightColor: { dps: 5, type: 'color' },
+  },
+  // Tuya wall dimmer
+  dimmer: {
+    lightOn: { dps: 1, type: 'boolean' },
+    lightBrightness: { dps: 2, type: 'integer', min: 10, max: 1000 },
+  },
+  // Tuya smart plug or wall switch, one data point per gang
+  switch: {
+    switch1: { dps: 1, type: 'boolean' },
+    switch2: { dps: 2, type: 'boolean' },
+    switch3: { dps: 3, type: 'boolean' },
+    switch4: { dps: 4, type: 'boolean' },
+    switch5: { dps: 5, type: 'boolean' },
+    switch6: { dps: 6, type: 'boolean' },
+  },
+  // Tuya smart plug with energy monitoring
+  meteredPlug: {
+    switch1: { dps: 1, type: 'boolean' },
+    addElectricity: { dps: 17, type: 'integer', scale: 0.001 },
+    current: { dps: 18, type: 'integer', scale: 0.001 },
+    power: { dps: 19, type: 'integer', scale: 0.1 },
+    voltage: { dps: 20, type: 'integer', scale: 0.1 },
+  },
+  // Battery temperature and humidity sensor
+  temperatureSensor: {
+    temperature: { dps: 1, type: 'integer', scale: 0.1 },
+    humidity: { dps: 2, type: 'integer' },
+    batteryLevel: { dps: 4, type: 'integer', min: 0, max: 100 },
+  },
+  // Door and window sensor
+  contactSensor: {
+    contact: { dps: 1, type: 'boolean' },
+    batteryLevel: { dps: 2, type: 'integer', min: 0, max: 100 },
+  },
+  // PIR motion sensor
+  motionSensor: {
+    motion: { dps: 1, type: 'enum', values: ['none', 'pir'] },
+    batteryLevel: { dps: 4, type: 'integer', min: 0, max: 100 },
+  },
+  // Water leak sensor
+  leakSensor: {
+    leak: { dps: 1, type: 'enum', values: ['normal', 'alarm'] },
+    batteryLevel: { dps: 4, type: 'integer', min: 0, max: 100 },
+  },
+  // Smoke alarm
+  smokeSensor: {
+    smoke: { dps: 1, type: 'enum', values: ['normal', 'alarm'] },
+    batteryLevel: { dps: 15, type: 'integer', min: 0, max: 100 },
+  },
+  // Curtain or blind motor
+  curtain: {
+    coverControl: { dps: 1, type: 'enum', values: ['open', 'stop', 'close'] },
+    coverPosition: { dps: 2, type: 'integer', min: 0, max: 100 },
+    coverState: { dps: 3, type: 'integer', min: 0, max: 100 },
+  },
+  // Thermostat or radiator valve with temperatures in tenths of a degree
+  thermostat: {
+    climateOn: { dps: 1, type: 'boolean' },
+    targetTemperature: { dps: 2, type: 'integer', min: 50, max: 350, scale: 0.1, step: 0.5 },
+    currentTemperature: { dps: 3, type: 'integer', scale: 0.1 },
+    climateMode: { dps: 4, type: 'enum', values: ['', 'manual', '', 'auto'] },
+    childLock: { dps: 6, type: 'boolean' },
+  },
+  // Space heater with temperatures in whole degrees
+  heater: {
+    climateOn: { dps: 1, type: 'boolean' },
+    targetTemperature: { dps: 2, type: 'integer', min: 5, max: 35 },
+    currentTemperature: { dps: 3, type: 'integer' },
+    childLock: { dps: 7, type: 'boolean' },
+  },
+  // Dehumidifier
+  dehumidifier: {
+    climateOn: { dps: 1, type: 'boolean' },
+    targetHumidity: { dps: 2, type: 'integer', min: 25, max: 80 },
+    humidity: { dps: 6, type: 'integer' },
+    childLock: { dps: 7, type: 'boolean' },
+  },
+};
+
+export const DEFAULT_DPS_PROFILE = 'designersFountain';
+
+/**
+ * A device's change to one function of its profile: the fields that differ, or `null` or a `dps`
+ * of 0 to leave the function unmapped on a device that lacks it
+ */
+export type DpsOverride = Partial<DpsFunction> | null;
+
+export type DpsOverrides = Partial<Record<DpsFunctionName, DpsOverride>>;
+
+/**
+ * Whether an override leaves its function unmapped, see DpsOverride
+ */
+export function isRemoval(override: DpsOverride | undefined): boolean {
+  return override === null || override?.dps === 0;
+}
+
+/**
+ * Builds the effective mapping for a device: the named profile (or the device type's
+ * default one) with any per-function overrides from the device config applied on top.
+ * Functions overridden with `null` or a `dps` of 0 are left out.
+ */
+export function resolveDpsMapping(
+  profile?: string,
+  overrides?: DpsOverrides,
+  defaultProfile = DEFAULT_DPS_PROFILE,
+): DpsMapping {
+  const base = DPS_PROFILES[profile ?? defaultProfile] ?? DPS_PROFILES[defaultProfile];
+  const mapping: DpsMapping = { ...base };
+
+  for (const [name, override] of Object.entries(overrides ?? {}) as [DpsFunctionName, DpsOverride][]) {
+    if (isRemoval(override)) {
+      delete mapping[name];
+      continue;
+    }
+    if (!override) {
+      continue;
+    }
+    const merged = { ...mapping[name], ...override };
+    if (typeof merged.dps === 'number' && merged.type) {
+      mapping[name] = merged as DpsFunction;
+    }
+  }
+
+  return mapping;
+}
+
+function clamp(fn: DpsFunction, value: number): number {
+  return Math.max(fn.min ?? 0, Math.min(fn.max ?? 100, value));
+}
+
+/**
+ * Converts a native integer value into a HomeKit 0-100 percentage
+ */
+export function toPercent(fn: DpsFunction, value: number): number {
+  const min = fn.min ?? 0;
+  const max = fn.max ?? 100;
+  return ((clamp(fn, value) - min) / (max - min)) * 100;
+}
+
+/**
+ * Converts a HomeKit 0-100 percentage into the native integer range
+ */
+export function fromPercent(fn: DpsFunction, value: number): number {
+  const min = fn.min ?? 0;
+  const max = fn.max ?? 100;
+  return Math.round((value / 100) * (max - min)) + min;
+}
+
+/**
+ * Reads a data point for the given function from a DPS payload, coercing it to the
+ * function's type and clamping integers into the native range.
+ */
+export function parseDpsValue(dps: Record<string, unknown>, fn: DpsFunction | undefined, defaultValue: unknown): unknown {
+  if (!fn || !(String(fn.dps) in dps)) {
+    return defaultValue;
+  }
+
+  const value = dps[String(fn.dps)];
+  switch (fn.type) {
+  case 'boolean':
+    return value === true;
+  case 'integer':
+    return typeof value === 'number' ? clamp(fn, value) : fn.min ?? 0;
+  case 'enum':
+  case 'color':
+    return typeof value === 'string' ? value : defaultValue;
+  default:
+    return defaultValue;
+  }
+}
+
+/**
+ * Reads a two-state function, which may be a boolean data point or an enum data point
+ * whose second listed value means "on". Enum values that match neither count as off.
+ */
+export function parseDpsState(dps: Record<string, unknown>, fn: DpsFunction | undefined, currentValue: boolean): boolean {
+  if (!fn || !(String(fn.dps) in dps)) {
+    return currentValue;
+  }
+
+  const value = dps[String(fn.dps)];
+  if (fn.type === 'enum') {
+    return value === fn.values?.[1];
+  }
+  return value === true;
+}
+
+/**
+ * Encodes a two-state function into the value its data point expects
+ */
+export function encodeDpsState(fn: DpsFunction, on: boolean): boolean | string {
+  if (fn.type === 'enum') {
+    return fn.values?.[on ? 1 : 0] ?? String(on);
+  }
+  return on;
+}
+
+/**
+ * Converts a native colour temperature into HomeKit mireds, given the warmest and
+ * coolest white the device produces in Kelvin.
+ */
+export function toMired(fn: DpsFunction, value: number, warmKelvin: number, coolKelvin: number): number {
+  const kelvin = warmKelvin + (toPercent(fn, value) / 100) * (coolKelvin - warmKelvin);
+  return Math.round(1000000 / kelvin);
+}
+
+/**
+ * Converts HomeKit mireds into the native colour temperature range
+ */
+export function fromMired(fn: DpsFunction, mired: number, warmKelvin: number, coolKelvin: number): number {
+  const kelvin = 1000000 / mired;
+  const fraction = Math.max(0, Math.min(1, (kelvin - warmKelvin) / (coolKelvin - warmKelvin)));
+  return fromPercent(fn, fraction * 100);
+}
+
+/**
+ * Reads an integer data point for the given function and converts it into a HomeKit
+ * 0-100 percentage, falling back to the current percentage when it is absent.
+ */
+export function parsePercentValue(dps: Record<string, unknown>, fn: DpsFunction | undefined, currentValue: number): number {
+  if (!fn || !(String(fn.dps) in dps)) {
+    return currentValue;
+  }
+  return toPercent(fn, parseDpsValue(dps, fn, fn.min) as number);
+}
+
+/**
+ * Reads a measurement data point for the given function in its display unit, applying the
+ * function's scale. Measurements are not clamped, the native range is open-ended.
+ */
+export function parseScaledValue(dps: Record<string, unknown>, fn: DpsFunction | undefined, currentValue: number): number {
+  const value = fn ? dps[String(fn.dps)] : undefined;
+  if (!fn || typeof value !== 'number') {
+    return currentValue;
+  }
+  // Round away the floating point noise of scales such as 0.1
+  return Math.round(value * (fn.scale ?? 1) * 1e6) / 1e6;
+}
+
+/**
+ * Converts a setpoint in display units into the native integer, kept within `min`-`max` when given
+ */
+export function fromScaledValue(fn: DpsFunction, value: number): number {
+  const native = Math.round(value / (fn.scale ?? 1));
+  return Math.max(fn.min ?? -Infinity, Math.min(fn.max ?? Infinity, native));
+}
+
+/**
+ * HomeKit characteristic props for a setpoint: its native range and step in display units
+ */
+export function scaledProps(fn: DpsFunction): { minValue?: number; maxValue?: number; minStep: number } {
+  const scale = fn.scale ?? 1;
+  return {
+    ...(fn.min !== undefined ? { minValue: Math.round(fn.min * scale * 1e6) / 1e6 } : {}),
+    ...(fn.max !== undefined ? { maxValue: Math.round(fn.max * scale * 1e6) / 1e6 } : {}),
+    minStep: fn.step ?? scale,
+  };
+}
+
+/**
+ * Number of steps of a stepped function: the listed values of an enum data point,
+ * or `steps` (by default every whole number) of an integer range
+ */
+export function stepCount(fn: DpsFunction): number {
+  if (fn.type === 'enum') {
+    return Math.max(1, fn.values?.length ?? 0);
+  }
+  return Math.max(1, Math.round(fn.steps ?? (fn.max ?? 100) - (fn.min ?? 0) + 1));
+}
+
+/**
+ * Converts a HomeKit percentage above 0 into the native value of the nearest step,
+ * each step covering an equal share of 0-100%
+ */
+export function fromStepPercent(fn: DpsFunction, value: number): number | string {
+  const count = stepCount(fn);
+  const step = Math.max(1, Math.min(count, Math.round((value / 100) * count)));
+
+  if (fn.type === 'enum') {
+    return fn.values?.[step - 1] ?? String(step);
+  }
+  const min = fn.min ?? 0;
+  const max = fn.max ?? 100;
+  return count > 1 ? Math.round(min + ((step - 1) / (count - 1)) * (max - min)) : max;
+}
+
+/**
+ * Reads a stepped data point for the given function and converts it into the HomeKit
+ * percentage of its step, falling back to the current percentage when it is absent or unknown.
+ */
+export function parseStepValue(dps: Record<string, unknown>, fn: DpsFunction | undefined, currentValue: number): number {
+  if (!fn || !(String(fn.dps) in dps)) {
+    return currentValue;
+  }
+
+  const count = stepCount(fn);
+  const value = parseDpsValue(dps, fn, undefined);
+  let step: number;
+  if (fn.type === 'enum') {
+    step = fn.values?.indexOf(value as string) ?? -1;
+    if (step === -1) {
+      return currentValue;
+    }
+    step += 1;
+  } else if (typeof value === 'number') {
+    step = count > 1 ? Math.round((toPercent(fn, value) / 100) * (count - 1)) + 1 : 1;
+  } else {
+    return currentValue;
+  }
+
+  return (step / count) * 100;
+}
+
+/**
+ * Whether the payload carries a value of the expected type for the given function
+ */
+export function hasDpsValue(dps: Record<string, unknown>, fn: DpsFunction | undefined): boolean {
+  if (!fn || !(String(fn.dps) in dps)) {
+    return false;
+  }
+  const expected = { boolean: 'boolean', integer: 'number', enum: 'string', color: 'string' }[fn.type];
+  return typeof dps[String(fn.dps)] === expected;
+}
@@ -0,0 +1,191 @@
+import fs from 'fs';
+import type { Logging } from 'homebridge';
+import path from 'path';
+
+// Eve counts time in seconds since 2001-01-01, Unix time is this many seconds ahead
+export const EVE_EPOCH_OFFSET = 978307200;
+
+// Entries kept, which covers four weeks of 10 minute entries as on an Eve Energy
+const MEMORY_SIZE = 4032;
+// Entries returned by one read of the HistoryEntries characteristic
+const ENTRIES_PER_READ = 11;
+// Signature of the Eve Energy log format, whose entries carry the power in tenths of a watt
+const ENERGY_SIGNATURE = '0401020202070f03';
+
+function swap16(value: number): string {
+  return (((value & 0xff) << 8) | ((value >> 8) & 0xff)).toString(16).padStart(4, '0');
+}
+
+function swap32(value: number): string {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(Math.max(0, Math.round(value)) >>> 0);
+  return buffer.toString('hex');
+}
+
+function hexToBase64(hex: string): string {
+  return Buffer.from(hex, 'hex').toString('base64');
+}
+
+/**
+ * What is kept on disk for one device between restarts
+ */
+interface EnergyHistoryData {
+  // Energy in kWh since the last reset
+  total: number;
+  // Time of the last reset, in Eve seconds
+  resetTime: number;
+  // Time of the first entry ever logged, in Eve seconds, which entry times are relative to
+  refTime?: number;
+  // Number of the newest entry, entries are numbered from 1 and the oldest ones drop out
+  lastEntry: number;
+  // Logged entries as [Unix time in seconds, average power in W], oldest first
+  entries: [number, number][];
+}
+
+/**
+ * Energy totals and the power history of one device, in the format the Eve app reads from
+ * an Eve Energy plug. The Eve app fetches the log through the History service: it reads the
+ * status, writes the number of the first entry it is missing and then reads the entries in
+ * batches. The oldest entry number shown to Eve is a reference time marker, which the data
+ * entries after it are relative to.
+ */
+export class EveEnergyHistory {
+  private data: EnergyHistoryData = { total: 0, resetTime: 0, lastEntry: 0, entries: [] };
+  // Next entry to send while the Eve app is reading the log
+  private nextEntry = 0;
+  private transferring = false;
+
+  constructor(
+    private readonly log: Logging,
+    public readonly path: string,
+  ) {
+    this.load();
+  }
+
+  get total(): number {
+    return this.data.total;
+  }
+
+  get resetTime(): number {
+    return this.data.resetTime;
+  }
+
+  private get firstEntry(): number {
+    // The reference marker comes just before the oldest entry
+    return this.data.lastEntry - this.data.entries.length;
+  }
+
+  /**
+   * Adds energy in kWh to the total
+   */
+  addEnergy(kWh: number) {
+    if (kWh > 0) {
+      this.data.total += kWh;
+    }
+  }
+
+  /**
+   * Starts the total again from zero, `resetTime` is the Eve time the Eve app reset it at
+   */
+  resetTotal(resetTime: number) {
+    this.data.total = 0;
+    this.data.resetTime = resetTime;
+    this.save();
+  }
+
+  /**
+   * Logs the average power over the last interval, dropping the oldest entry once the log is full
+   */
+  addEntry(time: number, power: number) {
+    if (this.data.refTime === undefined) {
+      this.data.refTime = time - EVE_EPOCH_OFFSET;
+      // Entry 1 is the reference marker
+      this.data.lastEntry = 1;
+    }
+    this.data.entries.push([time, Math.max(0, power)]);
+    this.data.lastEntry++;
+    if (this.data.entries.length >= MEMORY_SIZE) {
+      this.data.entries.shift();
+    }
+  }
+
+  /**
+   * Value of the HistoryStatus characteristic: time of the newest entry, the reference time,
+   * the log signature, how many entries are available and the number of the first one
+   */
+  status(): string {
+    const { refTime = 0, entries } = this.data;
+    const lastTime = entries.length > 0 ? entries[entries.length - 1][0] - EVE_EPOCH_OFFSET - refTime : 0;
+    const used = entries.length > 0 ? entries.length + 1 : 0;
+
+    return hexToBase64(
+      swap32(lastTime) + '00000000' + swap32(refTime) + ENERGY_SIGNATURE +
+      swap16(used) + swap16(MEMORY_SIZE) + swap32(Math.max(1, this.firstEntry)) + '000000000101',
+    );
+  }
+
+  /**
+   * Handles a write to the HistoryRequest characteristic, which names the first entry to send
+   */
+  request(value: string) {
+    const buffer = Buffer.from(value, 'base64');
+    const requested = buffer.length >= 6 ? buffer.readUInt32LE(2) : 0;
+    this.nextEntry = Math.max(requested, this.firstEntry, 1);
+    this.transferring = true;
+  }
+
+  /**
+   * Value of the HistoryEntries characteristic: the next batch of entries of a transfer,
+   * or `00` once the Eve app has everything
+   */
+  readEntries(): string {
+    const { refTime = 0, entries, lastEntry } = this.data;
+    if (!this.transferring || entries.length === 0 || this.nextEntry > lastEntry) {
+      this.transferring = false;
+      return hexToBase64('00');
+    }
+
+    let hex = '';
+    for (let count = 0; count < ENTRIES_PER_READ && this.nextEntry <= lastEntry; count++, this.nextEntry++) {
+      if (this.nextEntry === this.firstEntry) {
+        hex += '15' + swap32(this.nextEntry) + '0100000081' + swap32(refTime) + '00000000000000';
+        continue;
+      }
+      const [time, power] = entries[this.nextEntry - this.firstEntry - 1];
+      hex += '14' + swap32(this.nextEntry) + swap32(time - EVE_EPOCH_OFFSET - refTime) + '1f' + '00000000' +
+        swap16(Math.min(0xffff, Math.round(power * 10))) + '00000000';
+    }
+    return hexToBase64(hex);
+  }
+
+  private load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.path, 'utf8')) as Partial<EnergyHistoryData>;
+      this.data = {
+        total: typeof data.total === 'number' ? data.total : 0,
+        resetTime: typeof data.resetTime === 'number' ? data.resetTime : 0,
+        refTime: typeof data.refTime === 'number' ? data.refTime : undefined,
+        lastEntry: typeof data.lastEntry === 'number' ? data.lastEntry : 0,
+        entries: Array.isArray(data.entries) ? data.entries.slice(-(MEMORY_SIZE - 1)) : [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error(`Could not read energy history ${this.path}:`, (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Writes the totals and the log to disk, through a temporary file so a crash
+   * while writing does not lose what was saved before
+   */
+  save() {
+    try {
+      fs.mkdirSync(path.dirname(this.path), { recursive: true });
+      fs.writeFileSync(this.path + '.tmp', JSON.stringify(this.data));
+      fs.renameSync(this.path + '.tmp', this.path);
+    } catch (error) {
+      this.log.error(`Could not save energy history ${this.path}:`, (error as Error).message);
+    }
+  }
+}
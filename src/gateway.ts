@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import type { Logging } from 'homebridge';
+import TuyAPI from 'tuyapi';
+
+import { DEFAULT_PROTOCOL_VERSION, PROTOCOL_VERSIONS } from './config.js';
+import type { DeviceConfig } from './config.js';
+
+/**
+ * The calls a TuyaAccessory makes on its connection. A plain device uses a TuyAPI instance,
+ * a gateway sub-device uses a SubDeviceConnection with the same shape.
+ */
+export type TuyaConnection = Pick<TuyAPI, 'get' | 'set' | 'isConnected' | 'disconnect'> & Pick<EventEmitter, 'on' | 'removeAllListeners'>;
+
+interface SubDevicePayload {
+  cid?: string;
+  dps?: Record<string, unknown>;
+}
+
+/**
+ * One sub-device's view of its gateway's connection: reads and writes carry the sub-device's
+ * `cid`, and only pushes for that `cid` are passed on. Connection events are shared by all
+ * sub-devices of the gateway.
+ */
+export class SubDeviceConnection extends EventEmitter {
+  constructor(
+    private readonly gateway: TuyaGateway,
+    public readonly cid: string,
+  ) {
+    super();
+  }
+
+  async get(options: Parameters<TuyAPI['get']>[0]): ReturnType<TuyAPI['get']> {
+    return this.gateway.device.get({ ...options, cid: this.cid });
+  }
+
+  async set(options: Parameters<TuyAPI['set']>[0]): ReturnType<TuyAPI['set']> {
+    const reply = await this.gateway.device.set({ ...options, cid: this.cid } as Parameters<TuyAPI['set']>[0]);
+    // The gateway answers with the next status it sends, which may belong to another sub-device
+    if ((reply as SubDevicePayload | undefined)?.cid !== this.cid) {
+      return { dps: {} };
+    }
+    return reply;
+  }
+
+  isConnected(): boolean {
+    return this.gateway.device.isConnected();
+  }
+
+  /**
+   * Detaches from the gateway, the shared connection stays open for the other sub-devices
+   */
+  disconnect() {
+    this.gateway.release(this);
+  }
+}
+
+/**
+ * A Tuya gateway with Zigbee or Bluetooth sub-devices behind it. Sub-devices are addressed
+ * with the gateway's id and key plus their own `cid`, and all of them share one connection.
+ */
+export class TuyaGateway {
+  public device: TuyAPI;
+  public ip?: string;
+  public version: string;
+  private readonly subDevices: Map<string, SubDeviceConnection> = new Map();
+
+  constructor(
+    private readonly log: Logging,
+    public readonly config: DeviceConfig,
+  ) {
+    this.ip = config.ip;
+    // Gateways do not probe protocol versions, with `auto` the version announced on the LAN is used
+    this.version = config.protocolVersion && config.protocolVersion !== 'auto' ? config.protocolVersion : DEFAULT_PROTOCOL_VERSION;
+    this.device = this.createDevice();
+  }
+
+  private get isAutoDetecting(): boolean {
+    return this.config.protocolVersion === 'auto';
+  }
+
+  private createDevice(): TuyAPI {
+    const device = new TuyAPI({
+      id: this.config.id,
+      ip: this.ip,
+      key: this.config.key,
+      version: this.version,
+    });
+
+    device.on('error', (error) => this.broadcast('error', error));
+    device.on('connected', () => this.broadcast('connected'));
+    device.on('disconnected', () => this.broadcast('disconnected'));
+    device.on('data', (data, command) => this.route('data', data, command));
+    device.on('dp-refresh', (data, command) => this.route('dp-refresh', data, command));
+
+    return device;
+  }
+
+  /**
+   * Returns the connection for a sub-device, replacing any earlier one for the same `cid`
+   */
+  connect(cid: string): SubDeviceConnection {
+    const connection = new SubDeviceConnection(this, cid);
+    this.subDevices.set(cid, connection);
+    return connection;
+  }
+
+  release(connection: SubDeviceConnection) {
+    if (this.subDevices.get(connection.cid) === connection) {
+      this.subDevices.delete(connection.cid);
+    }
+  }
+
+  /**
+   * Follows the gateway to a new address or protocol version reported by LAN discovery.
+   * Returns whether anything changed.
+   */
+  updateAddress(ip: string, version?: string): boolean {
+    const versionChanged = !!version && this.isAutoDetecting && version !== this.version && PROTOCOL_VERSIONS.includes(version);
+    if (ip === this.ip && !versionChanged) {
+      return false;
+    }
+
+    this.log.info(`Gateway ${this.config.name} found at ${ip} (protocol ${versionChanged ? version : this.version})`);
+    this.ip = ip;
+    if (versionChanged) {
+      this.version = version!;
+    }
+
+    // Drop the old connection quietly, the sub-devices reconnect through the new one
+    this.closeDevice();
+    this.device = this.createDevice();
+    return true;
+  }
+
+  private closeDevice() {
+    this.device.removeAllListeners();
+    this.device.on('error', () => undefined);
+    this.device.disconnect();
+  }
+
+  /**
+   * Closes the shared connection once the gateway is no longer configured
+   */
+  destroy() {
+    this.subDevices.clear();
+    this.closeDevice();
+  }
+
+  private broadcast(event: string, ...args: unknown[]) {
+    for (const connection of this.subDevices.values()) {
+      connection.emit(event, ...args);
+    }
+  }
+
+  /**
+   * Passes a payload on to the sub-device it belongs to. Payloads without a `cid`
+   * are about the gateway itself and are dropped.
+   */
+  private route(event: string, data: unknown, command?: number) {
+    const cid = (data as SubDevicePayload | undefined)?.cid;
+    const connection = cid ? this.subDevices.get(cid) : undefined;
+    if (connection) {
+      connection.emit(event, data, command);
+    } else if (cid) {
+      this.log.debug(`Gateway ${this.config.name} reported unknown sub-device ${cid}:`, data);
+    }
+  }
+}
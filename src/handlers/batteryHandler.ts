@@ -0,0 +1,67 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { parseDpsState, parsePercentValue } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+// Battery level in percent below which HomeKit warns about a low battery
+const LOW_BATTERY_LEVEL = 20;
+
+/**
+ * Exposes the batteryLevel and batteryLow functions as a Battery service. Devices that only
+ * report a battery state map batteryLow; with just a level, low means below 20%.
+ */
+export class BatteryHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private level = 100;
+  private low = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+
+    this.service = this.tuya.getOrAddService(Service.Battery, name);
+    this.service.setCharacteristic(Characteristic.ChargingState, Characteristic.ChargingState.NOT_CHARGEABLE);
+    // Assume a full battery until the device reports otherwise
+    this.service.updateCharacteristic(Characteristic.BatteryLevel, this.level);
+
+    this.service.getCharacteristic(Characteristic.StatusLowBattery)
+      .onGet(this.getLowBattery.bind(this));
+
+    if (this.tuya.dpsMapping.batteryLevel) {
+      this.service.getCharacteristic(Characteristic.BatteryLevel)
+        .onGet(this.getLevel.bind(this));
+    }
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { batteryLevel, batteryLow } = this.tuya.dpsMapping;
+
+    const level = Math.round(parsePercentValue(dps, batteryLevel, this.level));
+    if (level !== this.level) {
+      this.level = level;
+      this.service.updateCharacteristic(Characteristic.BatteryLevel, level);
+    }
+
+    const low = batteryLow ? parseDpsState(dps, batteryLow, this.low) : level < LOW_BATTERY_LEVEL;
+    if (low !== this.low) {
+      this.low = low;
+      this.service.updateCharacteristic(Characteristic.StatusLowBattery, this.lowBatteryValue);
+    }
+  }
+
+  private get lowBatteryValue(): number {
+    const { StatusLowBattery } = this.tuya.platform.Characteristic;
+    return this.low ? StatusLowBattery.BATTERY_LEVEL_LOW : StatusLowBattery.BATTERY_LEVEL_NORMAL;
+  }
+
+  async getLevel(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.level);
+  }
+
+  async getLowBattery(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.lowBatteryValue);
+  }
+}
@@ -0,0 +1,280 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { fromPercent, hasDpsValue, toPercent } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+// Seconds from closed to open assumed when the device config does not give a travel time
+const DEFAULT_TRAVEL_TIME = 30;
+// How often the estimated position is pushed to HomeKit while the motor runs
+const ESTIMATE_INTERVAL = 1000;
+// Commands of the coverControl data point, in the order of its `values`
+const CONTROL_COMMANDS = ['open', 'stop', 'close'];
+
+type Command = 'open' | 'stop' | 'close';
+
+interface Movement {
+  from: number;
+  to: number;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Exposes the coverControl, coverPosition and coverState functions as a WindowCovering service.
+ * Positions are in HomeKit terms, 0% closed and 100% open, flipped for motors with `invertPosition`.
+ *
+ * Motors that do not report their position get one estimated from the time they have been
+ * running, using the configured `travelTime`. Without a target position data point the
+ * motor is sent open or close and then stopped once the estimate reaches the target.
+ */
+export class CoverHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private current: number;
+  private target: number;
+  private movement?: Movement;
+  private movementTimer: NodeJS.Timeout | null = null;
+  private readonly stopObserving: () => void;
+  private readonly travelTime: number;
+  private readonly invert: boolean;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+
+    this.travelTime = (this.tuya.deviceConfig.travelTime ?? DEFAULT_TRAVEL_TIME) * 1000;
+    this.invert = this.tuya.deviceConfig.invertPosition === true;
+    // Motors without position reporting start from the estimate saved before the restart
+    this.current = this.tuya.accessory.context.coverPosition ?? 0;
+    this.target = this.current;
+
+    this.service = this.tuya.getOrAddService(Service.WindowCovering, name);
+
+    this.service.getCharacteristic(Characteristic.CurrentPosition)
+      .onGet(this.getCurrentPosition.bind(this));
+
+    this.service.getCharacteristic(Characteristic.TargetPosition)
+      .onSet(this.setTargetPosition.bind(this))
+      .onGet(this.getTargetPosition.bind(this));
+
+    this.service.getCharacteristic(Characteristic.PositionState)
+      .onGet(this.getPositionState.bind(this));
+
+    if (this.tuya.dpsMapping.coverControl) {
+      this.service.getCharacteristic(Characteristic.HoldPosition)
+        .onSet(this.setHoldPosition.bind(this));
+    }
+
+    this.service.updateCharacteristic(Characteristic.CurrentPosition, this.current);
+    this.service.updateCharacteristic(Characteristic.TargetPosition, this.target);
+
+    // A status query repeats the last command long after it was given, only reports count
+    this.stopObserving = this.tuya.observe({ dpsReported: this.applyCommand.bind(this) });
+  }
+
+  private get reportsPosition(): boolean {
+    return !!this.tuya.dpsMapping.coverState;
+  }
+
+  /**
+   * Converts between the device's percentage and the HomeKit position, which are the same
+   * unless the motor reports 0% as open
+   */
+  private flip(percent: number): number {
+    const position = Math.round(percent);
+    return this.invert ? 100 - position : position;
+  }
+
+  private controlValue(command: Command): string {
+    const index = CONTROL_COMMANDS.indexOf(command);
+    return this.tuya.dpsMapping.coverControl?.values?.[index] ?? command;
+  }
+
+  private parseCommand(value: unknown): Command | undefined {
+    return (CONTROL_COMMANDS as Command[]).find((command) => this.controlValue(command) === value);
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { coverPosition, coverState } = this.tuya.dpsMapping;
+
+    if (hasDpsValue(dps, coverState)) {
+      this.current = this.flip(toPercent(coverState!, dps[String(coverState!.dps)] as number));
+    }
+    if (hasDpsValue(dps, coverPosition)) {
+      this.target = this.flip(toPercent(coverPosition!, dps[String(coverPosition!.dps)] as number));
+      if (!this.reportsPosition && this.movement?.to !== this.target && this.target !== this.estimatedPosition) {
+        this.startMovement(this.target);
+      }
+    }
+
+    this.updatePosition();
+  }
+
+  /**
+   * Follows commands from the remote or the Tuya app, as the device reports them
+   */
+  private applyCommand(dps: Record<string, unknown>) {
+    const { coverControl, coverPosition } = this.tuya.dpsMapping;
+    const command = hasDpsValue(dps, coverControl) ? this.parseCommand(dps[String(coverControl!.dps)]) : undefined;
+    if (!command) {
+      return;
+    }
+
+    if (command === 'stop') {
+      this.stopMovement();
+      this.target = this.current;
+    } else if (!hasDpsValue(dps, coverPosition) && command !== this.direction) {
+      // Runs to the end, unless it is the echo of a command sent for a position in between
+      this.target = command === 'open' ? 100 : 0;
+      if (!this.reportsPosition) {
+        this.startMovement(this.target);
+      }
+    }
+
+    this.updatePosition();
+  }
+
+  /**
+   * Pushes the current and target position and the direction of travel to HomeKit
+   */
+  private updatePosition() {
+    const { Characteristic } = this.tuya.platform;
+    this.service.updateCharacteristic(Characteristic.CurrentPosition, this.current);
+    this.service.updateCharacteristic(Characteristic.TargetPosition, this.target);
+    this.service.updateCharacteristic(Characteristic.PositionState, this.positionState);
+  }
+
+  private get positionState(): number {
+    const { PositionState } = this.tuya.platform.Characteristic;
+    const to = this.movement?.to ?? this.target;
+    if (to > this.current) {
+      return PositionState.INCREASING;
+    }
+    if (to < this.current) {
+      return PositionState.DECREASING;
+    }
+    return PositionState.STOPPED;
+  }
+
+  /**
+   * The command matching the estimated movement, if the motor is running
+   */
+  private get direction(): Command | undefined {
+    if (!this.movement || this.movement.to === this.movement.from) {
+      return undefined;
+    }
+    return this.movement.to > this.movement.from ? 'open' : 'close';
+  }
+
+  private get estimatedPosition(): number {
+    if (!this.movement) {
+      return this.current;
+    }
+    const { from, to, start, duration } = this.movement;
+    const progress = duration > 0 ? Math.min(1, (Date.now() - start) / duration) : 1;
+    return Math.round(from + (to - from) * progress);
+  }
+
+  /**
+   * Starts estimating the position of a motor that does not report it, as it travels to `to`
+   */
+  private startMovement(to: number) {
+    this.stopMovement();
+    const from = this.current;
+    this.movement = { from, to, start: Date.now(), duration: (Math.abs(to - from) / 100) * this.travelTime };
+    this.movementTimer = setInterval(this.trackMovement.bind(this), ESTIMATE_INTERVAL);
+  }
+
+  private trackMovement() {
+    if (!this.movement) {
+      return;
+    }
+    const { to, start, duration } = this.movement;
+    this.current = this.estimatedPosition;
+
+    if (Date.now() - start >= duration) {
+      this.stopMovement();
+      // Motors without a target data point run until they reach an end or are stopped
+      if (!this.tuya.dpsMapping.coverPosition && to > 0 && to < 100) {
+        this.sendCommand('stop');
+      }
+    }
+    this.updatePosition();
+  }
+
+  /**
+   * Ends the estimate where the motor is now, remembering the position across restarts
+   */
+  private stopMovement() {
+    if (this.movementTimer) {
+      clearInterval(this.movementTimer);
+      this.movementTimer = null;
+    }
+    if (this.movement) {
+      this.current = this.estimatedPosition;
+      this.movement = undefined;
+      this.tuya.accessory.context.coverPosition = this.current;
+    }
+  }
+
+  private sendCommand(command: Command) {
+    this.tuya.writeState('coverControl', this.controlValue(command), () => undefined).catch(() => {
+      this.tuya.platform.log.debug(`Could not send ${command} to ${this.tuya.accessory.displayName}`);
+    });
+  }
+
+  async setTargetPosition(value: CharacteristicValue) {
+    const target = value as number;
+    const { coverControl, coverPosition } = this.tuya.dpsMapping;
+
+    if (coverPosition) {
+      await this.tuya.writeState('coverPosition', fromPercent(coverPosition, this.flip(target)), () => {
+        this.target = target;
+        if (!this.reportsPosition) {
+          this.startMovement(target);
+        }
+      });
+    } else if (coverControl) {
+      this.current = this.estimatedPosition;
+      const command: Command = target === this.current ? 'stop' : target > this.current ? 'open' : 'close';
+      await this.tuya.writeState('coverControl', this.controlValue(command), () => {
+        this.target = target;
+        if (command === 'stop') {
+          this.stopMovement();
+        } else if (!this.reportsPosition) {
+          this.startMovement(target);
+        }
+      });
+    }
+    this.updatePosition();
+  }
+
+  async setHoldPosition(value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    await this.tuya.writeState('coverControl', this.controlValue('stop'), () => {
+      this.stopMovement();
+      this.target = this.current;
+    });
+    this.updatePosition();
+  }
+
+  async getCurrentPosition(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.movement ? this.estimatedPosition : this.current);
+  }
+
+  async getTargetPosition(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.target);
+  }
+
+  async getPositionState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.positionState);
+  }
+
+  destroy() {
+    this.stopObserving();
+    this.stopMovement();
+  }
+}
@@ -0,0 +1,135 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { encodeDpsState, fromScaledValue, parseDpsState, parseScaledValue, scaledProps } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+/**
+ * Exposes the climateOn, targetHumidity, humidity and childLock functions as a
+ * HumidifierDehumidifier service that only offers the dehumidifier mode. The device
+ * counts as dehumidifying while the room is above the target humidity.
+ */
+export class DehumidifierHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private on = false;
+  private target = 50;
+  private current = 50;
+  private locked = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+    const { DEHUMIDIFIER } = Characteristic.TargetHumidifierDehumidifierState;
+    const { targetHumidity, childLock } = this.tuya.dpsMapping;
+
+    this.service = this.tuya.getOrAddService(Service.HumidifierDehumidifier, name);
+
+    this.service.getCharacteristic(Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    // Values have to be within the new range before it is narrowed
+    this.service.getCharacteristic(Characteristic.TargetHumidifierDehumidifierState)
+      .updateValue(DEHUMIDIFIER)
+      .setProps({ minValue: DEHUMIDIFIER, maxValue: DEHUMIDIFIER, validValues: [DEHUMIDIFIER] })
+      .onSet(() => undefined)
+      .onGet(() => DEHUMIDIFIER);
+
+    this.service.getCharacteristic(Characteristic.CurrentHumidifierDehumidifierState)
+      .onGet(this.getCurrentState.bind(this));
+
+    this.service.getCharacteristic(Characteristic.CurrentRelativeHumidity)
+      .onGet(this.getCurrentHumidity.bind(this));
+
+    if (targetHumidity) {
+      const props = scaledProps(targetHumidity);
+      this.target = Math.max(props.minValue ?? -Infinity, Math.min(props.maxValue ?? Infinity, this.target));
+      this.service.getCharacteristic(Characteristic.RelativeHumidityDehumidifierThreshold)
+        .updateValue(this.target)
+        .setProps(props)
+        .onSet(this.setTargetHumidity.bind(this))
+        .onGet(this.getTargetHumidity.bind(this));
+    }
+
+    if (childLock) {
+      this.service.getCharacteristic(Characteristic.LockPhysicalControls)
+        .onSet(this.setLocked.bind(this))
+        .onGet(this.getLocked.bind(this));
+    }
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { climateOn, targetHumidity, humidity, childLock } = this.tuya.dpsMapping;
+
+    const on = parseDpsState(dps, climateOn, this.on);
+    const target = parseScaledValue(dps, targetHumidity, this.target);
+    const current = parseScaledValue(dps, humidity, this.current);
+    if (on !== this.on || target !== this.target || current !== this.current) {
+      this.on = on;
+      this.target = target;
+      this.current = current;
+      this.service.updateCharacteristic(Characteristic.Active, on ? 1 : 0);
+      this.service.updateCharacteristic(Characteristic.CurrentHumidifierDehumidifierState, this.currentState);
+      this.service.updateCharacteristic(Characteristic.CurrentRelativeHumidity, current);
+      if (targetHumidity) {
+        this.service.updateCharacteristic(Characteristic.RelativeHumidityDehumidifierThreshold, target);
+      }
+    }
+
+    const locked = parseDpsState(dps, childLock, this.locked);
+    if (locked !== this.locked) {
+      this.locked = locked;
+      this.service.updateCharacteristic(Characteristic.LockPhysicalControls, locked ? 1 : 0);
+    }
+  }
+
+  private get currentState(): number {
+    const { CurrentHumidifierDehumidifierState } = this.tuya.platform.Characteristic;
+    if (!this.on) {
+      return CurrentHumidifierDehumidifierState.INACTIVE;
+    }
+    return this.current > this.target ? CurrentHumidifierDehumidifierState.DEHUMIDIFYING : CurrentHumidifierDehumidifierState.IDLE;
+  }
+
+  async setActive(value: CharacteristicValue) {
+    await this.tuya.writeState('climateOn', encodeDpsState(this.tuya.dpsMapping.climateOn!, value === 1), () => {
+      this.on = value === 1;
+    });
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHumidifierDehumidifierState, this.currentState);
+  }
+
+  async getActive(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.on ? 1 : 0);
+  }
+
+  async getCurrentState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.currentState);
+  }
+
+  async setTargetHumidity(value: CharacteristicValue) {
+    await this.tuya.writeState('targetHumidity', fromScaledValue(this.tuya.dpsMapping.targetHumidity!, value as number), () => {
+      this.target = value as number;
+    });
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHumidifierDehumidifierState, this.currentState);
+  }
+
+  async getTargetHumidity(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.target);
+  }
+
+  async getCurrentHumidity(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.current);
+  }
+
+  async setLocked(value: CharacteristicValue) {
+    await this.tuya.writeState('childLock', encodeDpsState(this.tuya.dpsMapping.childLock!, value === 1), () => {
+      this.locked = value === 1;
+    });
+  }
+
+  async getLocked(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.locked ? 1 : 0);
+  }
+}
@@ -0,0 +1,41 @@
+import type { Characteristic, CharacteristicValue, Service, WithUUID } from 'homebridge';
+
+import type { DpsFunctionName } from '../dps.js';
+import { parseDpsState } from '../dps.js';
+import type { AccessoryHandler, ServiceType, TuyaAccessory } from '../platformAccessory.js';
+
+/**
+ * Exposes a two-state function, such as an open door or a leak alarm, as the state
+ * characteristic of a sensor service. `states` holds the characteristic value for
+ * off followed by the one for on, for example `[LEAK_NOT_DETECTED, LEAK_DETECTED]`.
+ */
+export class DetectionHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private detected = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    private readonly fn: DpsFunctionName,
+    serviceType: ServiceType,
+    private readonly characteristic: WithUUID<new () => Characteristic>,
+    private readonly states: [CharacteristicValue, CharacteristicValue],
+    name: string,
+  ) {
+    this.service = this.tuya.getOrAddService(serviceType, name);
+
+    this.service.getCharacteristic(characteristic)
+      .onGet(this.getState.bind(this));
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const detected = parseDpsState(dps, this.tuya.dpsMapping[this.fn], this.detected);
+    if (detected !== this.detected) {
+      this.detected = detected;
+      this.service.updateCharacteristic(this.characteristic, this.states[detected ? 1 : 0]);
+    }
+  }
+
+  async getState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.states[this.detected ? 1 : 0]);
+  }
+}
@@ -0,0 +1,147 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import type { DpsData } from '../commandQueue.js';
+import { POWER_ON_STATES } from '../config.js';
+import { encodeDpsState, fromScaledValue, hasDpsValue, parseDpsState, parseDpsValue, parseScaledValue } from '../dps.js';
+import type { DpsFunctionName } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+// Values of the relay status data point most Tuya plugs and switches use, for off, on and memory
+const DEFAULT_POWER_ON_VALUES = ['power_off', 'power_on', 'last'];
+
+// Functions that turn the device on, the first one mapped is what the countdown turns off
+const POWER_FUNCTIONS: DpsFunctionName[] = ['switch1', 'fanOn', 'lightOn'];
+
+/**
+ * Exposes the childLock function as LockPhysicalControls on the device's primary service,
+ * and applies the `powerOnState` and `autoOff` settings of the device config:
+ *
+ * - the powerOnState data point is set whenever the device is connected and reports another value
+ * - each time the device is turned on, its countdown data point is set to `autoOff` minutes,
+ *   so the device turns itself off even when Homebridge is not running
+ *
+ * A countdown already running, for example one set from the Smart Life app, is left alone.
+ */
+export class DeviceSettingsHandler implements AccessoryHandler {
+  private readonly service?: Service;
+  private readonly stopObserving: () => void;
+  private readonly powerFunction?: DpsFunctionName;
+  private locked = false;
+  private on = false;
+  private remaining = 0;
+  private powerOnState?: string;
+  // Set once per connection, so a value the device refuses is not written over and over
+  private powerOnWritten = false;
+  // Set once per time the device is on, so a countdown cancelled from elsewhere stays cancelled
+  private countdownStarted = false;
+
+  constructor(private readonly tuya: TuyaAccessory) {
+    const { Characteristic } = this.tuya.platform;
+    const { name, powerOnState, autoOff } = this.tuya.deviceConfig;
+    const { childLock, countdown } = this.tuya.dpsMapping;
+
+    this.service = this.tuya.primaryService;
+    if (childLock && this.service) {
+      if (!this.service.testCharacteristic(Characteristic.LockPhysicalControls)) {
+        this.service.addOptionalCharacteristic(Characteristic.LockPhysicalControls);
+      }
+      this.service.getCharacteristic(Characteristic.LockPhysicalControls)
+        .onSet(this.setLocked.bind(this))
+        .onGet(this.getLocked.bind(this));
+    }
+
+    if (powerOnState && !this.tuya.dpsMapping.powerOnState) {
+      this.tuya.platform.log.warn(`Device ${name} has no DPS mapped for powerOnState, ignoring its powerOnState setting`);
+    }
+    this.powerFunction = POWER_FUNCTIONS.find((fn) => this.tuya.dpsMapping[fn]);
+    if (autoOff && (!countdown || !this.powerFunction)) {
+      this.tuya.platform.log.warn(`Device ${name} has no DPS mapped for countdown, ignoring its autoOff setting`);
+    }
+
+    // A device back online reported before it counted as online, apply the settings now
+    this.stopObserving = this.tuya.observe({
+      onlineChanged: (isOnline) => {
+        if (isOnline) {
+          this.applySettings();
+        } else {
+          this.powerOnWritten = false;
+        }
+      },
+    });
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { childLock, countdown, powerOnState } = this.tuya.dpsMapping;
+
+    const locked = parseDpsState(dps, childLock, this.locked);
+    if (locked !== this.locked) {
+      this.locked = locked;
+      this.service?.updateCharacteristic(Characteristic.LockPhysicalControls, locked ? 1 : 0);
+    }
+
+    if (hasDpsValue(dps, powerOnState)) {
+      this.powerOnState = String(parseDpsValue(dps, powerOnState, this.powerOnState));
+    }
+
+    this.remaining = parseScaledValue(dps, countdown, this.remaining);
+    if (this.powerFunction) {
+      this.on = parseDpsState(dps, this.tuya.dpsMapping[this.powerFunction], this.on);
+    }
+    if (!this.on) {
+      this.countdownStarted = false;
+    } else if (this.remaining > 0) {
+      this.countdownStarted = true;
+    }
+
+    this.applySettings();
+  }
+
+  /**
+   * Writes the configured settings the device does not have yet. Only done over a live
+   * connection, not for the cached state the accessory starts with.
+   */
+  private applySettings() {
+    if (!this.tuya.isReachable || !this.tuya.isConnected) {
+      return;
+    }
+
+    const { name, powerOnState, autoOff } = this.tuya.deviceConfig;
+    const { countdown } = this.tuya.dpsMapping;
+    const powerOnFn = this.tuya.dpsMapping.powerOnState;
+
+    const wanted = powerOnState && powerOnFn
+      ? (powerOnFn.values ?? DEFAULT_POWER_ON_VALUES)[POWER_ON_STATES.indexOf(powerOnState)]
+      : undefined;
+    if (wanted !== undefined && this.powerOnState !== undefined && this.powerOnState !== wanted && !this.powerOnWritten) {
+      this.powerOnWritten = true;
+      this.tuya.platform.log.info(`Setting power-on state of ${name} to ${powerOnState}`);
+      this.write({ [String(powerOnFn!.dps)]: wanted });
+    }
+
+    if (autoOff && countdown && this.on && !this.countdownStarted) {
+      this.countdownStarted = true;
+      this.tuya.platform.log.debug(`Turning ${name} off in ${autoOff} minutes`);
+      this.write({ [String(countdown.dps)]: fromScaledValue(countdown, autoOff * 60) });
+    }
+  }
+
+  private write(data: DpsData) {
+    // A failed write is logged by the device and tried again on the next connection or turn-on
+    this.tuya.writeDps(data).catch(() => undefined);
+  }
+
+  async setLocked(value: CharacteristicValue) {
+    await this.tuya.writeState('childLock', encodeDpsState(this.tuya.dpsMapping.childLock!, value === 1), () => {
+      this.locked = value === 1;
+    });
+  }
+
+  async getLocked(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.locked ? 1 : 0);
+  }
+
+  destroy() {
+    this.stopObserving();
+  }
+}
@@ -0,0 +1,185 @@
+import type { Characteristic, CharacteristicValue, Service, WithUUID } from 'homebridge';
+import path from 'path';
+
+import { parseScaledValue } from '../dps.js';
+import { EVE_EPOCH_OFFSET, EveEnergyHistory } from '../eveHistory.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+// How often the average power is logged, the interval of an Eve Energy
+const HISTORY_INTERVAL = 600000;
+// Largest values the Eve characteristics accept
+const MAX_POWER = 12000;
+const MAX_CURRENT = 48;
+const MAX_VOLTAGE = 380;
+
+/**
+ * Exposes the current, power and voltage measurements of a plug through the Eve characteristics
+ * on its Outlet service, along with the energy used since the last reset and a power history
+ * for the Eve app's graphs. When the device maps addElectricity, each energy report it sends
+ * is added to the total, otherwise the total is worked out from the reported power over time.
+ * Totals and history are saved per device under the Homebridge storage path.
+ */
+export class EnergyHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private readonly historyService: Service;
+  private readonly history: EveEnergyHistory;
+  private readonly timer: NodeJS.Timeout;
+  private readonly stopObserving: () => void;
+  private power = 0;
+  private current = 0;
+  private voltage = 0;
+  // Power reported since the last history entry, integrated over time in watt-seconds
+  private energy = 0;
+  private intervalStart = Date.now();
+  private lastPowerTime?: number;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, CustomServices, CustomCharacteristics, api } = this.tuya.platform;
+    const { current, power, voltage } = this.tuya.dpsMapping;
+
+    this.history = new EveEnergyHistory(
+      this.tuya.platform.log,
+      path.join(api.user.storagePath(), 'localtuya', `${this.tuya.accessory.UUID}.json`),
+    );
+
+    // Eve reads the measurements from the same service as the on/off state
+    this.service = this.tuya.getOrAddService(Service.Outlet, name);
+    if (power) {
+      this.addCharacteristic(CustomCharacteristics.Consumption).onGet(this.getPower.bind(this));
+    }
+    if (current) {
+      this.addCharacteristic(CustomCharacteristics.ElectricCurrent).onGet(this.getCurrent.bind(this));
+    }
+    if (voltage) {
+      this.addCharacteristic(CustomCharacteristics.Voltage).onGet(this.getVoltage.bind(this));
+    }
+    this.addCharacteristic(CustomCharacteristics.TotalConsumption)
+      .onGet(this.getTotal.bind(this));
+
+    this.historyService = this.tuya.getOrAddService(CustomServices.History, `${name} History`);
+    this.historyService.getCharacteristic(CustomCharacteristics.HistoryStatus)
+      .onGet(() => this.history.status());
+    this.historyService.getCharacteristic(CustomCharacteristics.HistoryEntries)
+      .onGet(() => this.history.readEntries());
+    this.historyService.getCharacteristic(CustomCharacteristics.HistoryRequest)
+      .onSet((value) => this.history.request(value as string));
+    this.historyService.getCharacteristic(CustomCharacteristics.SetTime)
+      .onSet(() => undefined);
+    this.historyService.getCharacteristic(CustomCharacteristics.ResetTotal)
+      .onSet(this.resetTotal.bind(this))
+      .onGet(() => this.history.resetTime);
+
+    this.timer = setInterval(this.logHistory.bind(this), HISTORY_INTERVAL);
+    this.stopObserving = this.tuya.observe({ dpsReported: this.addReportedEnergy.bind(this) });
+  }
+
+  private addCharacteristic(characteristic: WithUUID<new () => Characteristic>) {
+    if (!this.service.characteristics.some(({ UUID }) => UUID === characteristic.UUID)) {
+      this.service.addCharacteristic(characteristic);
+    }
+    return this.service.getCharacteristic(characteristic);
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { CustomCharacteristics } = this.tuya.platform;
+    const { current, power, voltage } = this.tuya.dpsMapping;
+
+    const watts = parseScaledValue(dps, power, this.power);
+    if (watts !== this.power) {
+      this.integratePower();
+      this.power = watts;
+      this.service.updateCharacteristic(CustomCharacteristics.Consumption, Math.min(watts, MAX_POWER));
+    }
+
+    const amps = parseScaledValue(dps, current, this.current);
+    if (amps !== this.current) {
+      this.current = amps;
+      this.service.updateCharacteristic(CustomCharacteristics.ElectricCurrent, Math.min(amps, MAX_CURRENT));
+    }
+
+    const volts = parseScaledValue(dps, voltage, this.voltage);
+    if (volts !== this.voltage) {
+      this.voltage = volts;
+      this.service.updateCharacteristic(CustomCharacteristics.Voltage, Math.min(volts, MAX_VOLTAGE));
+    }
+  }
+
+  /**
+   * Adds the energy the device reports having used since its previous report. Only reports the
+   * device sends count, a status query answers with the last report again.
+   */
+  private addReportedEnergy(dps: Record<string, unknown>) {
+    const { addElectricity } = this.tuya.dpsMapping;
+    const added = addElectricity ? dps[String(addElectricity.dps)] : undefined;
+    if (typeof added === 'number' && added > 0) {
+      this.history.addEnergy(added * (addElectricity!.scale ?? 1));
+      this.service.updateCharacteristic(this.tuya.platform.CustomCharacteristics.TotalConsumption, this.history.total);
+    }
+  }
+
+  /**
+   * Adds the power since the last report to the energy of the current interval,
+   * counting only the time the device was reachable
+   */
+  private integratePower() {
+    const now = Date.now();
+    if (this.lastPowerTime !== undefined && this.tuya.isReachable) {
+      this.energy += this.power * (now - this.lastPowerTime) / 1000;
+    }
+    this.lastPowerTime = now;
+  }
+
+  /**
+   * Logs the average power of the interval that just ended and saves the totals
+   */
+  private logHistory() {
+    const { CustomCharacteristics } = this.tuya.platform;
+    this.integratePower();
+
+    const now = Date.now();
+    const seconds = (now - this.intervalStart) / 1000;
+    if (this.tuya.isReachable && seconds > 0) {
+      this.history.addEntry(Math.round(now / 1000), this.energy / seconds);
+      if (!this.tuya.dpsMapping.addElectricity) {
+        this.history.addEnergy(this.energy / 3600000);
+        this.service.updateCharacteristic(CustomCharacteristics.TotalConsumption, this.history.total);
+      }
+      this.historyService.updateCharacteristic(CustomCharacteristics.HistoryStatus, this.history.status());
+    }
+
+    this.energy = 0;
+    this.intervalStart = now;
+    this.history.save();
+  }
+
+  async resetTotal(value: CharacteristicValue) {
+    this.tuya.platform.log.info(`Resetting the total consumption of ${this.tuya.accessory.displayName}`);
+    this.history.resetTotal(Number(value) || Math.round(Date.now() / 1000) - EVE_EPOCH_OFFSET);
+    this.service.updateCharacteristic(this.tuya.platform.CustomCharacteristics.TotalConsumption, 0);
+  }
+
+  async getPower(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => Math.min(this.power, MAX_POWER));
+  }
+
+  async getCurrent(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => Math.min(this.current, MAX_CURRENT));
+  }
+
+  async getVoltage(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => Math.min(this.voltage, MAX_VOLTAGE));
+  }
+
+  async getTotal(): Promise<CharacteristicValue> {
+    return this.history.total;
+  }
+
+  destroy() {
+    clearInterval(this.timer);
+    this.stopObserving();
+    this.history.save();
+  }
+}
@@ -0,0 +1,123 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { encodeDpsState, fromStepPercent, parseDpsState, parseDpsValue, parseStepValue, stepCount } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+/**
+ * Exposes the fanOn, fanSpeed and fanDirection functions as a Fanv2 service.
+ * The speed slider snaps to the device's speed steps; 0% turns the fan off.
+ */
+export class FanHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private active = false;
+  private speed = 0;
+  private counterClockwise = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+
+    this.service = this.tuya.getOrAddService(Service.Fanv2, name);
+
+    this.service.getCharacteristic(Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    if (this.tuya.dpsMapping.fanSpeed) {
+      this.service.getCharacteristic(Characteristic.RotationSpeed)
+        .setProps({ minStep: 100 / stepCount(this.tuya.dpsMapping.fanSpeed) })
+        .onSet(this.setSpeed.bind(this))
+        .onGet(this.getSpeed.bind(this));
+    }
+
+    if (this.tuya.dpsMapping.fanDirection) {
+      this.service.getCharacteristic(Characteristic.RotationDirection)
+        .onSet(this.setDirection.bind(this))
+        .onGet(this.getDirection.bind(this));
+    }
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { fanOn, fanSpeed, fanDirection } = this.tuya.dpsMapping;
+
+    const active = parseDpsValue(dps, fanOn, this.active) as boolean;
+    if (active !== this.active) {
+      this.active = active;
+      this.service.updateCharacteristic(Characteristic.Active, active ? 1 : 0);
+    }
+
+    const speed = parseStepValue(dps, fanSpeed, this.speed);
+    if (speed !== this.speed) {
+      this.speed = speed;
+      this.service.updateCharacteristic(Characteristic.RotationSpeed, speed);
+    }
+
+    const counterClockwise = parseDpsState(dps, fanDirection, this.counterClockwise);
+    if (counterClockwise !== this.counterClockwise) {
+      this.counterClockwise = counterClockwise;
+      this.service.updateCharacteristic(Characteristic.RotationDirection, this.directionValue);
+    }
+  }
+
+  private get directionValue(): number {
+    const { RotationDirection } = this.tuya.platform.Characteristic;
+    return this.counterClockwise ? RotationDirection.COUNTER_CLOCKWISE : RotationDirection.CLOCKWISE;
+  }
+
+  async setActive(value: CharacteristicValue) {
+    await this.tuya.writeState('fanOn', value === 1, () => {
+      this.active = value === 1;
+    });
+  }
+
+  async getActive(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.active ? 1 : 0);
+  }
+
+  async setSpeed(value: CharacteristicValue) {
+    const { fanOn, fanSpeed } = this.tuya.dpsMapping;
+    const { Characteristic } = this.tuya.platform;
+
+    // 0% turns the fan off and keeps the last speed for when it comes back on
+    if ((value as number) <= 0) {
+      if (fanOn) {
+        await this.tuya.writeState('fanOn', false, () => {
+          this.active = false;
+          this.service.updateCharacteristic(Characteristic.Active, 0);
+        });
+      }
+      return;
+    }
+
+    // Convert 0-100 to the nearest of the device's speed steps, turning the fan on if it was off
+    const speed = fromStepPercent(fanSpeed!, value as number);
+    await this.tuya.writeStates({
+      fanSpeed: speed,
+      ...(fanOn && !this.active ? { fanOn: true } : {}),
+    }, () => {
+      this.speed = parseStepValue({ [fanSpeed!.dps]: speed }, fanSpeed, value as number);
+      if (fanOn && !this.active) {
+        this.active = true;
+        this.service.updateCharacteristic(Characteristic.Active, 1);
+      }
+    });
+  }
+
+  async getSpeed(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.speed);
+  }
+
+  async setDirection(value: CharacteristicValue) {
+    const counterClockwise = value === this.tuya.platform.Characteristic.RotationDirection.COUNTER_CLOCKWISE;
+    await this.tuya.writeState('fanDirection', encodeDpsState(this.tuya.dpsMapping.fanDirection!, counterClockwise), () => {
+      this.counterClockwise = counterClockwise;
+    });
+  }
+
+  async getDirection(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.directionValue);
+  }
+}
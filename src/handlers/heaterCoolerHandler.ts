@@ -0,0 +1,199 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { climateActivity, encodeClimateMode, parseClimateMode, supportedClimateModes } from '../climate.js';
+import type { ClimateMode } from '../climate.js';
+import { encodeDpsState, fromScaledValue, parseDpsState, parseScaledValue, scaledProps } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+// HomeKit TargetHeaterCoolerState values of the device modes
+const HEATER_COOLER_STATES: Partial<Record<ClimateMode, number>> = { auto: 0, heat: 1, cool: 2 };
+
+/**
+ * Exposes the climateOn, climateMode, targetTemperature, currentTemperature and childLock
+ * functions as a HeaterCooler service, which suits heaters better than a Thermostat: the
+ * device is switched on and off on its own, and only the modes it supports are offered.
+ * The target temperature drives the heating threshold, and the cooling threshold too
+ * when the device has a cool mode.
+ */
+export class HeaterCoolerHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private readonly modes: ClimateMode[];
+  private on = false;
+  private mode: ClimateMode = 'heat';
+  private target = 20;
+  private current = 20;
+  private locked = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+    const { targetTemperature, childLock } = this.tuya.dpsMapping;
+
+    this.modes = supportedClimateModes(this.tuya.dpsMapping).filter((mode) => mode !== 'off');
+
+    this.service = this.tuya.getOrAddService(Service.HeaterCooler, name);
+
+    this.service.getCharacteristic(Characteristic.Active)
+      .onSet(this.setActive.bind(this))
+      .onGet(this.getActive.bind(this));
+
+    this.service.getCharacteristic(Characteristic.TargetHeaterCoolerState)
+      .setProps({ validValues: this.modes.map((mode) => HEATER_COOLER_STATES[mode]!) })
+      .onSet(this.setTargetState.bind(this))
+      .onGet(this.getTargetState.bind(this));
+
+    this.service.getCharacteristic(Characteristic.CurrentHeaterCoolerState)
+      .onGet(this.getCurrentState.bind(this));
+
+    this.service.getCharacteristic(Characteristic.CurrentTemperature)
+      .onGet(this.getCurrentTemperature.bind(this));
+
+    if (targetTemperature) {
+      const props = scaledProps(targetTemperature);
+      this.target = Math.max(props.minValue ?? -Infinity, Math.min(props.maxValue ?? Infinity, this.target));
+      for (const threshold of this.thresholds) {
+        // The current value has to be within the new range before it is narrowed
+        this.service.getCharacteristic(threshold)
+          .updateValue(this.target)
+          .setProps(props)
+          .onSet(this.setTargetTemperature.bind(this))
+          .onGet(this.getTargetTemperature.bind(this));
+      }
+    }
+
+    if (childLock) {
+      this.service.getCharacteristic(Characteristic.LockPhysicalControls)
+        .onSet(this.setLocked.bind(this))
+        .onGet(this.getLocked.bind(this));
+    }
+  }
+
+  private get thresholds() {
+    const { HeatingThresholdTemperature, CoolingThresholdTemperature } = this.tuya.platform.Characteristic;
+    return this.modes.includes('cool') ? [HeatingThresholdTemperature, CoolingThresholdTemperature] : [HeatingThresholdTemperature];
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { climateOn, climateMode, targetTemperature, currentTemperature, childLock } = this.tuya.dpsMapping;
+
+    const on = climateOn ? parseDpsState(dps, climateOn, this.on) : parseClimateMode(dps, climateMode, this.mode) !== 'off';
+    const mode = parseClimateMode(dps, climateMode, this.mode);
+    const target = parseScaledValue(dps, targetTemperature, this.target);
+    const current = parseScaledValue(dps, currentTemperature, this.current);
+    if (on !== this.on || mode !== this.mode || target !== this.target || current !== this.current) {
+      this.on = on;
+      this.mode = mode;
+      this.target = target;
+      this.current = current;
+      this.service.updateCharacteristic(Characteristic.Active, on ? 1 : 0);
+      this.service.updateCharacteristic(Characteristic.TargetHeaterCoolerState, this.targetState);
+      this.service.updateCharacteristic(Characteristic.CurrentHeaterCoolerState, this.currentState);
+      this.service.updateCharacteristic(Characteristic.CurrentTemperature, current);
+      if (targetTemperature) {
+        for (const threshold of this.thresholds) {
+          this.service.updateCharacteristic(threshold, target);
+        }
+      }
+    }
+
+    const locked = parseDpsState(dps, childLock, this.locked);
+    if (locked !== this.locked) {
+      this.locked = locked;
+      this.service.updateCharacteristic(Characteristic.LockPhysicalControls, locked ? 1 : 0);
+    }
+  }
+
+  private get targetState(): number {
+    return HEATER_COOLER_STATES[this.mode] ?? HEATER_COOLER_STATES[this.modes[0]] ?? 1;
+  }
+
+  private get currentState(): number {
+    const { CurrentHeaterCoolerState } = this.tuya.platform.Characteristic;
+    if (!this.on) {
+      return CurrentHeaterCoolerState.INACTIVE;
+    }
+    switch (climateActivity(this.on, this.mode, this.current, this.target)) {
+    case 'heating':
+      return CurrentHeaterCoolerState.HEATING;
+    case 'cooling':
+      return CurrentHeaterCoolerState.COOLING;
+    default:
+      return CurrentHeaterCoolerState.IDLE;
+    }
+  }
+
+  async setActive(value: CharacteristicValue) {
+    const { climateOn, climateMode } = this.tuya.dpsMapping;
+    const on = value === 1;
+
+    if (climateOn) {
+      await this.tuya.writeState('climateOn', encodeDpsState(climateOn, on), () => {
+        this.on = on;
+      });
+    } else if (climateMode) {
+      // Devices without a power data point are switched off through their off mode
+      const mode = on ? (this.mode === 'off' ? this.modes[0] : this.mode) : 'off';
+      await this.tuya.writeState('climateMode', encodeClimateMode(climateMode, mode) ?? '', () => {
+        this.on = on;
+        this.mode = mode;
+      });
+    }
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHeaterCoolerState, this.currentState);
+  }
+
+  async getActive(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.on ? 1 : 0);
+  }
+
+  async setTargetState(value: CharacteristicValue) {
+    const { climateMode } = this.tuya.dpsMapping;
+    const mode = this.modes.find((candidate) => HEATER_COOLER_STATES[candidate] === value);
+    const modeValue = mode && climateMode && encodeClimateMode(climateMode, mode);
+    if (!modeValue) {
+      return;
+    }
+    await this.tuya.writeState('climateMode', modeValue, () => {
+      this.mode = mode;
+    });
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHeaterCoolerState, this.currentState);
+  }
+
+  async getTargetState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.targetState);
+  }
+
+  async getCurrentState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.currentState);
+  }
+
+  async setTargetTemperature(value: CharacteristicValue) {
+    await this.tuya.writeState('targetTemperature', fromScaledValue(this.tuya.dpsMapping.targetTemperature!, value as number), () => {
+      this.target = value as number;
+    });
+    for (const threshold of this.thresholds) {
+      this.service.updateCharacteristic(threshold, this.target);
+    }
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHeaterCoolerState, this.currentState);
+  }
+
+  async getTargetTemperature(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.target);
+  }
+
+  async getCurrentTemperature(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.current);
+  }
+
+  async setLocked(value: CharacteristicValue) {
+    await this.tuya.writeState('childLock', encodeDpsState(this.tuya.dpsMapping.childLock!, value === 1), () => {
+      this.locked = value === 1;
+    });
+  }
+
+  async getLocked(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.locked ? 1 : 0);
+  }
+}
@@ -0,0 +1,231 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { decodeTuyaColor, detectColorFormat, encodeTuyaColor } from '../color.js';
+import type { HsvColor, TuyaColorFormat } from '../color.js';
+import { encodeDpsState, fromMired, fromPercent, parseDpsState, parseDpsValue, parsePercentValue, toMired } from '../dps.js';
+import type { AccessoryHandler, TuyaAccessory } from '../platformAccessory.js';
+
+// Typical white range of Tuya bulbs, used when the device config does not give one
+const DEFAULT_WARM_KELVIN = 2700;
+const DEFAULT_COOL_KELVIN = 6500;
+
+/**
+ * Exposes the lightOn, lightBrightness, lightColorTemp and lightColor functions as a Lightbulb service.
+ * Brightness, colour temperature and hue/saturation are only offered when the device maps their data points.
+ *
+ * Colour lights switch between a white and a colour work mode. In colour mode HomeKit brightness
+ * drives the value part of the colour instead of the white brightness data point.
+ */
+export class LightHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private on = false;
+  // Brightness as shown in HomeKit, from whichever work mode is active
+  private brightness = 0;
+  private whiteBrightness = 0;
+  private colorTemperature: number;
+  private colorMode = false;
+  private hue = 0;
+  private saturation = 0;
+  private colorValue = 100;
+  // Format of the colour data, taken from what the device reports
+  private colorFormat: TuyaColorFormat = 'hsv';
+  // Colour parts set but not yet confirmed by the device. HomeKit sets hue and saturation
+  // separately but at the same time, each write carries the parts set before it.
+  private pendingColor: Partial<HsvColor> = {};
+  private pendingColorWrites = 0;
+  private readonly warmKelvin: number;
+  private readonly coolKelvin: number;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+
+    this.warmKelvin = this.tuya.deviceConfig.warmKelvin ?? DEFAULT_WARM_KELVIN;
+    this.coolKelvin = this.tuya.deviceConfig.coolKelvin ?? DEFAULT_COOL_KELVIN;
+    this.colorTemperature = Math.round(1000000 / this.warmKelvin);
+
+    this.service = this.tuya.getOrAddService(Service.Lightbulb, name);
+
+    this.service.getCharacteristic(Characteristic.On)
+      .onSet(this.setOn.bind(this))
+      .onGet(this.getOn.bind(this));
+
+    if (this.tuya.dpsMapping.lightBrightness || this.tuya.dpsMapping.lightColor) {
+      this.service.getCharacteristic(Characteristic.Brightness)
+        .onSet(this.setBrightness.bind(this))
+        .onGet(this.getBrightness.bind(this));
+    }
+
+    if (this.tuya.dpsMapping.lightColorTemp) {
+      // Limit the slider to the whites the device can actually produce, the current value has to be
+      // within that range before it is narrowed
+      this.service.getCharacteristic(Characteristic.ColorTemperature)
+        .updateValue(this.colorTemperature)
+        .setProps({
+          minValue: Math.round(1000000 / this.coolKelvin),
+          maxValue: Math.round(1000000 / this.warmKelvin),
+        })
+        .onSet(this.setColorTemperature.bind(this))
+        .onGet(this.getColorTemperature.bind(this));
+    }
+
+    if (this.tuya.dpsMapping.lightColor) {
+      this.service.getCharacteristic(Characteristic.Hue)
+        .onSet(this.setHue.bind(this))
+        .onGet(this.getHue.bind(this));
+
+      this.service.getCharacteristic(Characteristic.Saturation)
+        .onSet(this.setSaturation.bind(this))
+        .onGet(this.getSaturation.bind(this));
+    }
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { lightOn, lightBrightness, lightColorTemp, lightMode, lightColor } = this.tuya.dpsMapping;
+
+    const on = parseDpsValue(dps, lightOn, this.on) as boolean;
+    if (on !== this.on) {
+      this.on = on;
+      this.service.updateCharacteristic(Characteristic.On, on);
+    }
+
+    this.colorMode = parseDpsState(dps, lightMode, this.colorMode);
+    this.whiteBrightness = parsePercentValue(dps, lightBrightness, this.whiteBrightness);
+
+    const colorData = parseDpsValue(dps, lightColor, undefined);
+    const color = typeof colorData === 'string' ? decodeTuyaColor(colorData) : undefined;
+    if (color) {
+      this.colorFormat = detectColorFormat(colorData as string) ?? this.colorFormat;
+      this.colorValue = color.value;
+      if (color.hue !== this.hue) {
+        this.hue = color.hue;
+        this.service.updateCharacteristic(Characteristic.Hue, color.hue);
+      }
+      if (color.saturation !== this.saturation) {
+        this.saturation = color.saturation;
+        this.service.updateCharacteristic(Characteristic.Saturation, color.saturation);
+      }
+    }
+
+    const brightness = this.colorMode && lightColor ? this.colorValue : this.whiteBrightness;
+    if (brightness !== this.brightness) {
+      this.brightness = brightness;
+      this.service.updateCharacteristic(Characteristic.Brightness, brightness);
+    }
+
+    if (lightColorTemp && String(lightColorTemp.dps) in dps) {
+      const native = parseDpsValue(dps, lightColorTemp, lightColorTemp.min) as number;
+      const colorTemperature = toMired(lightColorTemp, native, this.warmKelvin, this.coolKelvin);
+      if (colorTemperature !== this.colorTemperature) {
+        this.colorTemperature = colorTemperature;
+        this.service.updateCharacteristic(Characteristic.ColorTemperature, colorTemperature);
+      }
+    }
+  }
+
+  async setOn(value: CharacteristicValue) {
+    await this.tuya.writeState('lightOn', value as boolean, () => {
+      this.on = value as boolean;
+    });
+  }
+
+  async getOn(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.on);
+  }
+
+  async setBrightness(value: CharacteristicValue) {
+    const { lightBrightness, lightColor } = this.tuya.dpsMapping;
+
+    // In colour mode, or without a white brightness data point, brightness is part of the colour
+    if (lightColor && (this.colorMode || !lightBrightness)) {
+      await this.writeColor({ value: value as number });
+      return;
+    }
+
+    // Convert 0-100 to the device's native brightness range
+    const brightness = fromPercent(lightBrightness!, value as number);
+    await this.tuya.writeState('lightBrightness', brightness, () => {
+      this.brightness = value as number;
+      this.whiteBrightness = value as number;
+    });
+  }
+
+  async getBrightness(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.brightness);
+  }
+
+  async setColorTemperature(value: CharacteristicValue) {
+    // Convert mireds to the device's native warm to cool range
+    const native = fromMired(this.tuya.dpsMapping.lightColorTemp!, value as number, this.warmKelvin, this.coolKelvin);
+    const { lightMode } = this.tuya.dpsMapping;
+
+    // Picking a white switches a colour light back to white mode
+    await this.tuya.writeStates({
+      lightColorTemp: native,
+      ...(lightMode ? { lightMode: encodeDpsState(lightMode, false) } : {}),
+    }, () => {
+      this.colorTemperature = value as number;
+      if (lightMode && this.colorMode) {
+        this.colorMode = false;
+        this.brightness = this.whiteBrightness;
+        this.service.updateCharacteristic(this.tuya.platform.Characteristic.Brightness, this.brightness);
+      }
+    });
+  }
+
+  async getColorTemperature(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.colorTemperature);
+  }
+
+  /**
+   * Writes the current colour with the given parts changed, switching the light to colour mode
+   */
+  private async writeColor(change: Partial<HsvColor>) {
+    const { lightMode } = this.tuya.dpsMapping;
+    // The command queue sends the last colour queued, so it has to include the parts still pending
+    const pending = Object.assign(this.pendingColor, change);
+    const color = {
+      hue: pending.hue ?? this.hue,
+      saturation: pending.saturation ?? this.saturation,
+      // A colour value of zero is black, leave switching off to the On characteristic
+      value: Math.max(1, pending.value ?? (this.colorMode ? this.colorValue : this.brightness || this.colorValue)),
+    };
+
+    this.pendingColorWrites++;
+    try {
+      await this.tuya.writeStates({
+        lightColor: encodeTuyaColor(color, this.colorFormat),
+        ...(lightMode ? { lightMode: encodeDpsState(lightMode, true) } : {}),
+      }, () => {
+        this.hue = color.hue;
+        this.saturation = color.saturation;
+        this.colorValue = color.value;
+        this.colorMode = true;
+        this.brightness = color.value;
+      });
+    } finally {
+      if (--this.pendingColorWrites === 0) {
+        this.pendingColor = {};
+      }
+    }
+  }
+
+  async setHue(value: CharacteristicValue) {
+    await this.writeColor({ hue: value as number });
+  }
+
+  async getHue(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.hue);
+  }
+
+  async setSaturation(value: CharacteristicValue) {
+    await this.writeColor({ saturation: value as number });
+  }
+
+  async getSaturation(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.saturation);
+  }
+}
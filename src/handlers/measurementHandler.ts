@@ -0,0 +1,41 @@
+import type { Characteristic, CharacteristicValue, Service, WithUUID } from 'homebridge';
+
+import type { DpsFunctionName } from '../dps.js';
+import { parseScaledValue } from '../dps.js';
+import type { AccessoryHandler, ServiceType, TuyaAccessory } from '../platformAccessory.js';
+
+/**
+ * Exposes a measurement function, such as temperature or humidity, as the current value
+ * characteristic of a sensor service. The native value is scaled with the function's
+ * `scale` and kept within the range HomeKit accepts.
+ */
+export class MeasurementHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private value = 0;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    private readonly fn: DpsFunctionName,
+    serviceType: ServiceType,
+    private readonly characteristic: WithUUID<new () => Characteristic>,
+    name: string,
+  ) {
+    this.service = this.tuya.getOrAddService(serviceType, name);
+
+    this.service.getCharacteristic(characteristic)
+      .onGet(this.getValue.bind(this));
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { minValue = -Infinity, maxValue = Infinity } = this.service.getCharacteristic(this.characteristic).props;
+    const value = Math.max(minValue, Math.min(maxValue, parseScaledValue(dps, this.tuya.dpsMapping[this.fn], this.value)));
+    if (value !== this.value) {
+      this.value = value;
+      this.service.updateCharacteristic(this.characteristic, value);
+    }
+  }
+
+  async getValue(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.value);
+  }
+}
@@ -0,0 +1,49 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import type { DpsFunctionName } from '../dps.js';
+import { encodeDpsState, parseDpsState } from '../dps.js';
+import type { AccessoryHandler, ServiceType, TuyaAccessory } from '../platformAccessory.js';
+
+/**
+ * Exposes a single two-state function as a Switch or Outlet service.
+ * Multi-gang switches create one handler per gang, each with its own subtype,
+ * and fan modes such as natural breeze get a Switch of their own.
+ */
+export class SwitchHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private on = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    private readonly fn: DpsFunctionName,
+    serviceType: ServiceType,
+    name: string,
+    subtype?: string,
+  ) {
+    const { Characteristic } = this.tuya.platform;
+
+    this.service = this.tuya.getOrAddService(serviceType, name, subtype);
+
+    this.service.getCharacteristic(Characteristic.On)
+      .onSet(this.setOn.bind(this))
+      .onGet(this.getOn.bind(this));
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const on = parseDpsState(dps, this.tuya.dpsMapping[this.fn], this.on);
+    if (on !== this.on) {
+      this.on = on;
+      this.service.updateCharacteristic(this.tuya.platform.Characteristic.On, on);
+    }
+  }
+
+  async setOn(value: CharacteristicValue) {
+    await this.tuya.writeState(this.fn, encodeDpsState(this.tuya.dpsMapping[this.fn]!, value as boolean), () => {
+      this.on = value as boolean;
+    });
+  }
+
+  async getOn(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.on);
+  }
+}
@@ -0,0 +1,168 @@
+import type { CharacteristicValue, Service } from 'homebridge';
+
+import { CLIMATE_MODES, climateActivity, encodeClimateMode, parseClimateMode, supportedClimateModes } from '../climate.js';
+import type { ClimateMode } from '../climate.js';
+import { encodeDpsState, fromScaledValue, parseDpsState, parseScaledValue, scaledProps } from '../dps.js';
+import type { AccessoryHandler, DpsValues, TuyaAccessory } from '../platformAccessory.js';
+
+/**
+ * Exposes the climateOn, climateMode, targetTemperature, currentTemperature and childLock
+ * functions as a Thermostat service. HomeKit's off mode turns the device off; the heat, cool
+ * and auto modes turn it on and select the matching device mode.
+ */
+export class ThermostatHandler implements AccessoryHandler {
+  private readonly service: Service;
+  private on = true;
+  private mode: ClimateMode = 'heat';
+  private target = 20;
+  private current = 20;
+  private locked = false;
+
+  constructor(
+    private readonly tuya: TuyaAccessory,
+    name: string,
+  ) {
+    const { Service, Characteristic } = this.tuya.platform;
+    const { targetTemperature, childLock } = this.tuya.dpsMapping;
+
+    this.service = this.tuya.getOrAddService(Service.Thermostat, name);
+
+    this.service.getCharacteristic(Characteristic.TargetHeatingCoolingState)
+      .setProps({ validValues: supportedClimateModes(this.tuya.dpsMapping).map((mode) => CLIMATE_MODES.indexOf(mode)) })
+      .onSet(this.setTargetState.bind(this))
+      .onGet(this.getTargetState.bind(this));
+
+    this.service.getCharacteristic(Characteristic.CurrentHeatingCoolingState)
+      .onGet(this.getCurrentState.bind(this));
+
+    if (targetTemperature) {
+      const props = scaledProps(targetTemperature);
+      this.target = Math.max(props.minValue ?? -Infinity, Math.min(props.maxValue ?? Infinity, this.target));
+      // The current value has to be within the new range before it is narrowed
+      this.service.getCharacteristic(Characteristic.TargetTemperature)
+        .updateValue(this.target)
+        .setProps(props)
+        .onSet(this.setTargetTemperature.bind(this))
+        .onGet(this.getTargetTemperature.bind(this));
+    }
+
+    this.service.getCharacteristic(Characteristic.CurrentTemperature)
+      .onGet(this.getCurrentTemperature.bind(this));
+
+    // Tuya climate devices report Celsius, the Home app converts for display
+    this.service.getCharacteristic(Characteristic.TemperatureDisplayUnits)
+      .onSet(() => undefined)
+      .onGet(() => Characteristic.TemperatureDisplayUnits.CELSIUS);
+
+    if (childLock) {
+      // Not among the Thermostat's optional characteristics, but the Home app shows it all the same
+      this.service.addOptionalCharacteristic(Characteristic.LockPhysicalControls);
+      this.service.getCharacteristic(Characteristic.LockPhysicalControls)
+        .onSet(this.setLocked.bind(this))
+        .onGet(this.getLocked.bind(this));
+    }
+  }
+
+  applyDps(dps: Record<string, unknown>) {
+    const { Characteristic } = this.tuya.platform;
+    const { climateOn, climateMode, targetTemperature, currentTemperature, childLock } = this.tuya.dpsMapping;
+
+    const on = parseDpsState(dps, climateOn, this.on);
+    const mode = parseClimateMode(dps, climateMode, this.mode);
+    const target = parseScaledValue(dps, targetTemperature, this.target);
+    const current = parseScaledValue(dps, currentTemperature, this.current);
+    if (on !== this.on || mode !== this.mode || target !== this.target || current !== this.current) {
+      this.on = on;
+      this.mode = mode;
+      this.target = target;
+      this.current = current;
+      this.service.updateCharacteristic(Characteristic.TargetHeatingCoolingState, this.targetState);
+      this.service.updateCharacteristic(Characteristic.CurrentHeatingCoolingState, this.currentState);
+      this.service.updateCharacteristic(Characteristic.TargetTemperature, target);
+      this.service.updateCharacteristic(Characteristic.CurrentTemperature, current);
+    }
+
+    const locked = parseDpsState(dps, childLock, this.locked);
+    if (locked !== this.locked) {
+      this.locked = locked;
+      this.service.updateCharacteristic(Characteristic.LockPhysicalControls, locked ? 1 : 0);
+    }
+  }
+
+  private get targetState(): number {
+    return CLIMATE_MODES.indexOf(this.on ? this.mode : 'off');
+  }
+
+  private get currentState(): number {
+    const { CurrentHeatingCoolingState } = this.tuya.platform.Characteristic;
+    switch (climateActivity(this.on, this.mode, this.current, this.target)) {
+    case 'heating':
+      return CurrentHeatingCoolingState.HEAT;
+    case 'cooling':
+      return CurrentHeatingCoolingState.COOL;
+    default:
+      return CurrentHeatingCoolingState.OFF;
+    }
+  }
+
+  async setTargetState(value: CharacteristicValue) {
+    const { climateOn, climateMode } = this.tuya.dpsMapping;
+    const mode = CLIMATE_MODES[value as number] ?? 'heat';
+    const values: DpsValues = {};
+
+    if (mode === 'off' && climateOn) {
+      values.climateOn = encodeDpsState(climateOn, false);
+    } else {
+      if (climateOn && !this.on) {
+        values.climateOn = encodeDpsState(climateOn, true);
+      }
+      const modeValue = climateMode && encodeClimateMode(climateMode, mode);
+      if (modeValue) {
+        values.climateMode = modeValue;
+      }
+    }
+
+    await this.tuya.writeStates(values, () => {
+      if (mode === 'off' && climateOn) {
+        this.on = false;
+      } else {
+        this.on = true;
+        this.mode = climateMode ? mode : 'heat';
+      }
+    });
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHeatingCoolingState, this.currentState);
+  }
+
+  async getTargetState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.targetState);
+  }
+
+  async getCurrentState(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.currentState);
+  }
+
+  async setTargetTemperature(value: CharacteristicValue) {
+    await this.tuya.writeState('targetTemperature', fromScaledValue(this.tuya.dpsMapping.targetTemperature!, value as number), () => {
+      this.target = value as number;
+    });
+    this.service.updateCharacteristic(this.tuya.platform.Characteristic.CurrentHeatingCoolingState, this.currentState);
+  }
+
+  async getTargetTemperature(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.target);
+  }
+
+  async getCurrentTemperature(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.current);
+  }
+
+  async setLocked(value: CharacteristicValue) {
+    await this.tuya.writeState('childLock', encodeDpsState(this.tuya.dpsMapping.childLock!, value === 1), () => {
+      this.locked = value === 1;
+    });
+  }
+
+  async getLocked(): Promise<CharacteristicValue> {
+    return this.tuya.readState(() => this.locked ? 1 : 0);
+  }
+}
@@ -1,7 +1,26 @@
 import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service } from 'homebridge';
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
 
+import { BridgeHttpApi } from './bridge/httpApi.js';
+import { MqttBridge } from './bridge/mqttBridge.js';
+import type { BridgeConfig, DeviceConfig, PlatformPollingConfig } from './config.js';
+import { GATEWAY_DEVICE_TYPE, getDeviceType } from './deviceTypes.js';
+import { DevicesFile } from './devicesFile.js';
+import { DIAGNOSTICS_FILE, pluginVersion, redact } from './diagnostics.js';
+import type { Diagnostics } from './diagnostics.js';
+import { TuyaDiscovery } from './discovery.js';
+import type { DiscoveredDevice } from './discovery.js';
+import { TuyaGateway } from './gateway.js';
 import { TuyaAccessory } from './platformAccessory.js';
+import { SceneAccessory } from './scene.js';
+import { DEFAULT_MAX_CONCURRENT, PollScheduler } from './scheduler.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
+import { bridgeProblems, pollingProblems, validateDevices, validateScenes } from './validation.js';
+// How often the diagnostics dump is written for the settings panel
+const DIAGNOSTICS_INTERVAL = 300000;
+
 // We don't use TuyAPI directly in this file, it's used in platformAccessory.ts
 
 // This is only required when using Custom Services and Characteristics not support by HomeKit
@@ -19,7 +38,22 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
   // this is used to track restored cached accessories and their handlers
   public readonly accessories: Map<string, PlatformAccessory> = new Map();
   private readonly accessoryHandlers: Map<string, TuyaAccessory> = new Map();
-  public readonly discoveredCacheUUIDs: string[] = [];
+  // Polls of all devices, staggered and limited in how many run at once
+  public readonly scheduler: PollScheduler;
+  // Polling settings of the platform config, which device entries override
+  public readonly polling?: PlatformPollingConfig;
+  // Scenes from the platform config, keyed by accessory uuid
+  private readonly scenes: Map<string, SceneAccessory> = new Map();
+  // Gateways with sub-devices, keyed by gateway device id
+  private readonly gateways: Map<string, TuyaGateway> = new Map();
+  private discovery?: TuyaDiscovery;
+  // Optional access for programs that are not HomeKit, through the same device connections
+  private httpApi?: BridgeHttpApi;
+  private mqttBridge?: MqttBridge;
+  private diagnosticsTimer?: NodeJS.Timeout;
+  private devicesFile?: DevicesFile;
+  // Valid entries of devices.json as last read, kept when the file is briefly unreadable
+  private fileDevices: unknown[] = [];
 
   // This is only required when using Custom Services and Characteristics not support by HomeKit
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -39,6 +73,14 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
     this.CustomServices = new EveHomeKitTypes(this.api).Services;
     this.CustomCharacteristics = new EveHomeKitTypes(this.api).Characteristics;
 
+    const problems = pollingProblems(this.config.polling, true);
+    if (problems.length > 0) {
+      this.log.error(`The plugin config ${problems.join(', ')}, using the default polling settings`);
+    } else {
+      this.polling = this.config.polling;
+    }
+    this.scheduler = new PollScheduler(this.polling?.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+
     this.log.debug('Finished initializing platform:', this.config.name);
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
@@ -49,6 +91,31 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
       log.debug('Executed didFinishLaunching callback');
       // run the method to discover / register your devices as accessories
       this.discoverDevices();
+      this.startBridge();
+      this.diagnosticsTimer = setInterval(() => this.writeDiagnostics(), DIAGNOSTICS_INTERVAL);
+
+      // listen for device broadcasts on the LAN to fill in and follow device IP addresses
+      if (this.config.discovery !== false) {
+        this.discovery = new TuyaDiscovery(this.log, this.handleDiscoveredDevice.bind(this), this.handleSeenDevice.bind(this));
+        this.discovery.start();
+      }
+    });
+
+    this.api.on('shutdown', () => {
+      clearInterval(this.diagnosticsTimer);
+      this.writeDiagnostics();
+      this.discovery?.stop();
+      this.devicesFile?.stop();
+      this.scheduler.stop();
+      this.httpApi?.stop();
+      this.mqttBridge?.stop();
+      // stop the handlers' timers and save what they keep on disk, such as energy totals
+      for (const handler of this.accessoryHandlers.values()) {
+        handler.destroy();
+      }
+      for (const scene of this.scenes.values()) {
+        scene.destroy();
+      }
     });
   }
 
@@ -64,49 +131,255 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * This is an example method showing how to register discovered accessories.
-   * Accessories must only be registered once, previously created accessories
-   * must not be registered again to prevent "duplicate UUID" errors.
+   * Passes the address of a device found on the LAN to its accessory, if it is configured
    */
-  async discoverDevices() {
-    // Get devices from config
-    const configDevices = this.config.devices || [];
-    
-    // Read devices.json if it exists
-    try {
-      const fs = await import('fs');
-      const path = await import('path');
-      
-      // Get directory of current module
-      const moduleDir = path.dirname(new URL(import.meta.url).pathname);
-      const devicesPath = path.resolve(moduleDir, '../../devices.json');
-      
-      if (fs.existsSync(devicesPath)) {
-        const devicesJson = JSON.parse(fs.readFileSync(devicesPath, 'utf8'));
-        if (Array.isArray(devicesJson)) {
-          for (const device of devicesJson) {
-            if (!configDevices.find((d: { id: string }) => d.id === device.id)) {
-              configDevices.push({
-                name: device.name,
-                id: device.id,
-                key: device.key,
-                ip: device.ip,
-                type: 'fanLight', // Default type for our fan/light combo
-              });
-            }
+  private handleDiscoveredDevice(device: DiscoveredDevice) {
+    const gateway = this.gateways.get(device.id);
+    if (gateway) {
+      if (gateway.updateAddress(device.ip, device.version)) {
+        for (const handler of this.accessoryHandlers.values()) {
+          if (handler.deviceConfig.id === device.id && handler.deviceConfig.cid) {
+            handler.updateAddress(device.ip);
           }
         }
       }
+      return;
+    }
+
+    const handler = this.accessoryHandlers.get(this.api.hap.uuid.generate(device.id));
+    if (!handler) {
+      this.log.debug(`Discovered device ${device.id} at ${device.ip} is not configured`);
+      return;
+    }
+    handler.updateAddress(device.ip, device.version);
+  }
+
+  /**
+   * Passes on a broadcast from a device whose address has not changed, a sleeping device sends one when it wakes up
+   */
+  private handleSeenDevice(device: DiscoveredDevice) {
+    this.accessoryHandlers.get(this.api.hap.uuid.generate(device.id))?.handleWakeUp();
+  }
+
+  /**
+   * Running accessories of all configured devices
+   */
+  public get devices(): TuyaAccessory[] {
+    return [...this.accessoryHandlers.values()];
+  }
+
+  /**
+   * Finds the running accessory of a configured device by its name, by its node id if it is
+   * a gateway sub-device, or else by its id, since a sub-device's id is the gateway's
+   */
+  public findAccessory(reference: string): TuyaAccessory | undefined {
+    const handlers = this.devices;
+    return handlers.find((handler) => handler.deviceConfig.name === reference)
+      ?? handlers.find((handler) => handler.deviceConfig.cid === reference)
+      ?? handlers.find((handler) => handler.deviceConfig.id === reference && !handler.deviceConfig.cid);
+  }
+
+  /**
+   * The diagnostics dump users attach to bug reports, with every local key hidden
+   */
+  public diagnostics(): Diagnostics {
+    const devices = this.devices;
+    const settings = Object.fromEntries(Object.entries(this.config).filter(([name]) => name !== 'devices'));
+    return {
+      generated: new Date().toISOString(),
+      plugin: pluginVersion(),
+      homebridge: this.api.serverVersion,
+      node: process.version,
+      system: `${process.platform} ${process.arch}`,
+      settings: redact(settings, devices.map((device) => device.deviceConfig.key)),
+      devices: devices.map((device) => device.diagnostics()),
+    };
+  }
+
+  /**
+   * Writes the diagnostics dump to the Homebridge storage path, where the settings panel shows it
+   */
+  private writeDiagnostics() {
+    const file = path.resolve(this.api.user.storagePath(), DIAGNOSTICS_FILE);
+    try {
+      writeFileSync(file, JSON.stringify(this.diagnostics(), null, 2));
     } catch (error) {
-      this.log.debug('No devices.json found or error reading it:', error);
+      this.log.warn(`Could not write ${file}:`, (error as Error).message);
     }
+  }
 
-    // loop over the discovered devices and register each one if it has not already been registered
+  /**
+   * Starts the HTTP API and MQTT bridge configured under `bridge`, each one off until it has a port or broker URL
+   */
+  private startBridge() {
+    const bridge: BridgeConfig | undefined = this.config.bridge;
+    const problems = bridgeProblems(bridge);
+    if (problems.length > 0) {
+      this.log.error(`The plugin config ${problems.join(', ')}, the bridge is disabled`);
+      return;
+    }
+
+    if (bridge?.http?.port) {
+      const httpApi = new BridgeHttpApi(this, bridge.http);
+      httpApi.start().then(
+        () => this.log.info(`HTTP API listening on port ${httpApi.port}`),
+        (error: Error) => this.log.error('HTTP API could not be started:', error.message),
+      );
+      this.httpApi = httpApi;
+    }
+    if (bridge?.mqtt?.url) {
+      this.mqttBridge = new MqttBridge(this, bridge.mqtt);
+      this.mqttBridge.start();
+    }
+  }
+
+  /**
+   * Opens the shared connection of a gateway entry and returns its sub-devices, each
+   * reached through the gateway's id, key, address and protocol version plus its own `cid`.
+   * A gateway whose connection settings did not change keeps its connection.
+   */
+  private setUpGateway(config: DeviceConfig): { device: DeviceConfig; uuid: string; gateway: TuyaGateway }[] {
+    if (!config.subDevices?.length) {
+      this.log.warn(`Gateway ${config.name} has no sub-devices configured`);
+      return [];
+    }
+
+    let gateway = this.gateways.get(config.id);
+    const connection = ({ key, ip, protocolVersion }: DeviceConfig) => ({ key, ip, protocolVersion });
+    if (!gateway || !isDeepStrictEqual(connection(gateway.config), connection(config))) {
+      gateway?.destroy();
+      gateway = new TuyaGateway(this.log, config);
+      this.gateways.set(config.id, gateway);
+    }
+    const sharedGateway = gateway;
+
+    // The connection, and with it the address and protocol version, comes from the gateway
+    return config.subDevices.map((subDevice) => ({
+      device: {
+        ...subDevice,
+        id: config.id,
+        key: config.key,
+        ip: config.ip,
+      },
+      uuid: this.api.hap.uuid.generate(`${config.id}:${subDevice.cid}`),
+      gateway: sharedGateway,
+    }));
+  }
+
+  /**
+   * Where devices.json is read from: the `devicesFile` setting, relative to the Homebridge
+   * storage path, which is also where it is looked for by default
+   */
+  private get devicesFilePath(): string {
+    return path.resolve(this.api.user.storagePath(), this.config.devicesFile || 'devices.json');
+  }
+
+  /**
+   * Collects the device entries from the platform config and devices.json, validating each one.
+   * Invalid entries are reported and left out. Entries in devices.json whose id is already
+   * configured in the platform config are left out too.
+   */
+  private loadDevices(): DeviceConfig[] {
+    const fileDevices = this.devicesFile?.read();
+    if (fileDevices) {
+      this.fileDevices = fileDevices;
+    }
+
+    const takenIds = new Set<string>();
+    const fromConfig = validateDevices(this.config.devices ?? [], 'the plugin config', takenIds);
+    const fromFile = validateDevices(this.fileDevices, this.devicesFilePath, takenIds);
+
+    for (const error of [...fromConfig.errors, ...fromFile.errors]) {
+      this.log.error(error);
+    }
+    return [...fromConfig.devices, ...fromFile.devices];
+  }
+
+  /**
+   * This is an example method showing how to register discovered accessories.
+   * Accessories must only be registered once, previously created accessories
+   * must not be registered again to prevent "duplicate UUID" errors.
+   */
+  discoverDevices() {
+    this.devicesFile = new DevicesFile(this.log, this.devicesFilePath);
+    const devices = this.loadDevices();
+    this.setUpScenes(devices);
+    this.syncAccessories(devices);
+
+    // devices added to or removed from devices.json are picked up without a restart
+    this.devicesFile.watch(() => this.syncAccessories(this.loadDevices()));
+  }
+
+  /**
+   * Registers an accessory for each scene of the platform config, restoring cached ones.
+   * Cached scenes that are no longer configured are removed along with stale devices.
+   */
+  private setUpScenes(devices: DeviceConfig[]) {
+    const { scenes, errors } = validateScenes(this.config.scenes, devices);
+    for (const error of errors) {
+      this.log.error(error);
+    }
+
+    for (const scene of scenes) {
+      const uuid = this.api.hap.uuid.generate(`scene:${scene.name}`);
+      let accessory = this.accessories.get(uuid);
+      if (accessory) {
+        this.log.info('Restoring existing scene from cache:', accessory.displayName);
+      } else {
+        this.log.info('Adding new scene:', scene.name);
+        accessory = new this.api.platformAccessory(scene.name, uuid);
+      }
+      accessory.context.scene = scene;
+
+      this.scenes.set(uuid, new SceneAccessory(this, accessory, scene));
+
+      if (this.accessories.has(uuid)) {
+        this.api.updatePlatformAccessories([accessory]);
+      } else {
+        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.set(uuid, accessory);
+      }
+    }
+  }
+
+  /**
+   * Registers an accessory for each device entry, restoring cached ones, and unregisters
+   * accessories whose device is no longer configured. Accessories that are already running
+   * are left alone unless their entry changed, in which case their handler is recreated.
+   */
+  private syncAccessories(configDevices: DeviceConfig[]) {
+    // generate a unique id for each accessory, from the device id or, for sub-devices
+    // behind a gateway, from the gateway id and the sub-device's node id
+    const entries: { device: DeviceConfig; uuid: string; gateway?: TuyaGateway }[] = [];
     for (const device of configDevices) {
-      // generate a unique id for the accessory this should be generated from
-      // something globally unique, but constant, for example, the device serial
-      // number or MAC address
-      const uuid = this.api.hap.uuid.generate(device.id);
+      if (device.type === GATEWAY_DEVICE_TYPE) {
+        entries.push(...this.setUpGateway(device));
+      } else {
+        entries.push({ device, uuid: this.api.hap.uuid.generate(device.id) });
+      }
+    }
+
+    const configuredUUIDs = new Set<string>();
+
+    // loop over the discovered devices and register each one if it has not already been registered
+    for (const { device, uuid, gateway } of entries) {
+      const deviceType = getDeviceType(device);
+      if (!deviceType) {
+        this.log.error(`Device ${device.name} has unsupported type "${device.type}", skipping`);
+        continue;
+      }
+      configuredUUIDs.add(uuid);
+
+      // nothing to do for accessories already running with the same settings
+      const running = this.accessoryHandlers.get(uuid);
+      if (running && running.gateway === gateway && isDeepStrictEqual(running.deviceConfig, device)) {
+        continue;
+      }
+      if (running) {
+        this.log.info(`Settings of ${device.name} changed, reloading it`);
+        running.destroy();
+        this.accessoryHandlers.delete(uuid);
+      }
 
       // see if an accessory with the same uuid has already been registered and restored from
       // the cached devices we stored in the `configureAccessory` method above
@@ -116,19 +389,20 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
         // the accessory already exists
         this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
 
-        // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. e.g.:
-        // existingAccessory.context.device = device;
-        // this.api.updatePlatformAccessories([existingAccessory]);
+        // refresh the cached device details from the config, so changes to the key, IP, name or type take effect
+        existingAccessory.context.device = device;
+        if (existingAccessory.displayName !== device.name) {
+          this.log.info(`Renaming accessory ${existingAccessory.displayName} to ${device.name}`);
+          existingAccessory.updateDisplayName(device.name);
+        }
 
         // create the accessory handler for the restored accessory
         // this is imported from `platformAccessory.ts`
-        const handler = new TuyaAccessory(this, existingAccessory);
+        const handler = new TuyaAccessory(this, existingAccessory, deviceType, gateway);
         this.accessoryHandlers.set(uuid, handler);
 
-        // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, e.g.:
-        // remove platform accessories when no longer present
-        // this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-        // this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
+        // persist the refreshed context and any services the handler added or removed
+        this.api.updatePlatformAccessories([existingAccessory]);
       } else {
         // the accessory does not yet exist, so we need to create it
         this.log.info('Adding new accessory:', device.name);
@@ -142,22 +416,20 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
 
         // create the accessory handler for the newly create accessory
         // this is imported from `platformAccessory.ts`
-        const handler = new TuyaAccessory(this, accessory);
+        const handler = new TuyaAccessory(this, accessory, deviceType, gateway);
         this.accessoryHandlers.set(uuid, handler);
 
         // link the accessory to your platform
         this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.set(uuid, accessory);
       }
-
-      // push into discoveredCacheUUIDs
-      this.discoveredCacheUUIDs.push(uuid);
     }
 
     // you can also deal with accessories from the cache which are no longer present by removing them from Homebridge
     // for example, if your plugin logs into a cloud account to retrieve a device list, and a user has previously removed a device
     // from this cloud account, then this device will no longer be present in the device list but will still be in the Homebridge cache
     for (const [uuid, accessory] of this.accessories) {
-      if (!this.discoveredCacheUUIDs.includes(uuid)) {
+      if (!configuredUUIDs.has(uuid) && !this.scenes.has(uuid)) {
         this.log.info('Removing existing accessory from cache:', accessory.displayName);
         // Clean up the accessory handler
         const handler = this.accessoryHandlers.get(uuid);
@@ -166,6 +438,18 @@ export class LocalTuyaPlatform implements DynamicPlatformPlugin {
           this.accessoryHandlers.delete(uuid);
         }
         this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.delete(uuid);
+      }
+    }
+
+    // the MQTT bridge follows the devices that are running now
+    this.mqttBridge?.sync();
+
+    // close the connections of gateways that are no longer configured
+    for (const [id, gateway] of this.gateways) {
+      if (!configDevices.some((device) => device.id === id && device.type === GATEWAY_DEVICE_TYPE)) {
+        gateway.destroy();
+        this.gateways.delete(id);
       }
     }
   }
@@ -1,20 +1,72 @@
-import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { CharacteristicValue, PlatformAccessory, Service, WithUUID } from 'homebridge';
 import type { LocalTuyaPlatform } from './platform.js';
 import TuyAPI from 'tuyapi';
-
-interface DeviceState {
-  fanActive: boolean;
-  fanSpeed: number;
-  lightOn: boolean;
-  lightBrightness: number;
+import { isDeepStrictEqual } from 'util';
+
+import { CommandQueue } from './commandQueue.js';
+import type { DpsData } from './commandQueue.js';
+import { DEFAULT_PROTOCOL_VERSION, PROTOCOL_VERSIONS } from './config.js';
+import type { DebugLevel, DeviceConfig } from './config.js';
+import { DEFAULT_DEVICE_TYPE } from './deviceTypes.js';
+import type { DeviceTypeDefinition } from './deviceTypes.js';
+import { HealthCounters, isTimeout, redact, resolveDebugLevel } from './diagnostics.js';
+import type { DeviceDiagnostics } from './diagnostics.js';
+import type { TuyaConnection, TuyaGateway } from './gateway.js';
+import { hasDpsValue, resolveDpsMapping } from './dps.js';
+import type { DpsFunctionName, DpsMapping } from './dps.js';
+import { pollDelay, resolvePollSettings, retryDelay } from './scheduler.js';
+import type { PollSettings } from './scheduler.js';
+
+export interface DeviceState {
   lastUpdate: number;
   isOnline: boolean;
   retryCount: number;
   lastError?: string;
   lastConnectionAttempt: number;
   consecutiveTimeouts: number;
+  // When the current outage started, while the device is offline
+  offlineSince?: number;
+}
+
+/**
+ * Binds one or more HomeKit services of an accessory to its data points.
+ * Handlers are created by the device type registry, see deviceTypes.ts.
+ */
+export interface AccessoryHandler {
+  /**
+   * Applies a DPS payload reported by the device to the handler's state and pushes
+   * any changed values to HomeKit. Payloads may be partial, absent data points keep their value.
+   */
+  applyDps(dps: Record<string, unknown>): void;
+
+  /**
+   * Stops any timers and saves any state of the handler, when the accessory is removed or reloaded
+   */
+  destroy?(): void;
 }
 
+/**
+ * Follows the state a device reports and whether it can be reached, such as the MQTT bridge
+ * publishing it. Both are only called on a change. `dpsReported` is called for every report
+ * the device sends on its own, once each, for data points such as the energy used since the
+ * last report that count even when the value is the same.
+ */
+export interface DeviceObserver {
+  dpsChanged?(dps: Record<string, unknown>): void;
+  dpsReported?(dps: Record<string, unknown>): void;
+  onlineChanged?(isOnline: boolean): void;
+}
+
+/**
+ * Constructor of a concrete HAP service, such as `Service.Fanv2`
+ */
+export type ServiceType = WithUUID<new (displayName?: string, subtype?: string) => Service>;
+
+/**
+ * Native values to write, keyed by function
+ */
+export type DpsValues = Partial<Record<DpsFunctionName, boolean | number | string>>;
+
 interface TuyaResponse {
   dps: Record<string, unknown>;
 }
@@ -22,7 +74,14 @@ interface TuyaResponse {
 // Known initialization DPS codes that may appear during power-up
 const INIT_DPS = ['33', '35'];
 
-function isValidResponse(response: unknown, isReconnecting = false): response is TuyaResponse {
+// Command of the status reports a device sends on its own, replies to a status query use another one
+const STATUS_COMMAND = 8;
+
+// Requests in a row a device can leave unanswered before it counts as offline, a device
+// that keeps its connection open but stops answering is otherwise never noticed
+const OFFLINE_AFTER_TIMEOUTS = 3;
+
+function isValidResponse(response: unknown, mapping: DpsMapping, isReconnecting = false): response is TuyaResponse {
   if (!response || typeof response !== 'object') {
     return false;
   }
@@ -38,48 +97,43 @@ function isValidResponse(response: unknown, isReconnecting = false): response is
   }
 
   // During normal operation, validate expected properties
-  return (
-    (('51' in dps && typeof dps['51'] === 'boolean') ||
-     ('53' in dps && typeof dps['53'] === 'number') ||
-     ('20' in dps && typeof dps['20'] === 'boolean') ||
-     ('22' in dps && typeof dps['22'] === 'number'))
-  );
+  return Object.values(mapping).some(fn => hasDpsValue(dps, fn));
 }
 
-function parseDpsValue(dps: Record<string, unknown>, key: string, defaultValue: unknown): unknown {
-  if (!(key in dps)) {
-    return defaultValue;
-  }
-
-  const value = dps[key];
-  switch (key) {
-  case '51': // Fan active
-  case '20': // Light on
-    return value === true;
-  case '53': // Fan speed
-    return typeof value === 'number' ? Math.max(1, Math.min(6, value)) : 1;
-  case '22': // Light brightness
-    return typeof value === 'number' ? Math.max(10, Math.min(1000, value)) : 10;
-  default:
-    return defaultValue;
-  }
+/**
+ * Formats a duration for the offline/online log, for example `2h 5m` or `40s`
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const units: [number, string][] = [
+    [Math.floor(seconds / 86400), 'd'],
+    [Math.floor(seconds / 3600) % 24, 'h'],
+    [Math.floor(seconds / 60) % 60, 'm'],
+    [seconds % 60, 's'],
+  ];
+  const parts = units.filter(([value]) => value > 0).map(([value, unit]) => `${value}${unit}`);
+  return parts.slice(0, 2).join(' ') || '0s';
 }
 
-const MAX_RETRIES = 3;
-const BASE_RETRY_DELAY = 5000; // 5 seconds initial delay
-const REFRESH_INTERVAL = 10000; // 10 seconds between refreshes
-const MAX_RETRY_DELAY = 300000; // 5 minutes maximum retry delay
-const OPERATION_TIMEOUT = 1000; // 1 second timeout for device operations
-
 export class TuyaAccessory {
-  private fanService: Service;
-  private lightService: Service;
-  private device: TuyAPI;
+  public readonly deviceConfig: DeviceConfig;
+  public readonly dpsMapping: DpsMapping;
+  // Polling intervals, timeouts and retry backoff, from the platform config and the device entry
+  public readonly pollSettings: PollSettings;
+  // From the device entry or the platform config, see DebugLevel
+  public readonly debugLevel: DebugLevel;
+  private device: TuyaConnection;
+  // Protocol version in use, undefined while it still has to be auto-detected
+  private protocolVersion?: string;
+  // Address in use, from the config or from LAN discovery, undefined until the device has been found
+  private ip?: string;
+  private detecting: Promise<boolean> | null = null;
+  // Sleeping battery devices are only heard from when they push, see DeviceTypeDefinition.pushOnly
+  private readonly pushOnly: boolean;
+  private readonly handlers: AccessoryHandler[];
+  // Services claimed by the handlers, anything else on the accessory is left over from an earlier config
+  private readonly usedServices: Set<Service> = new Set();
   private state: DeviceState = {
-    fanActive: false,
-    fanSpeed: 0,
-    lightOn: false,
-    lightBrightness: 0,
     lastUpdate: 0,
     isOnline: true,
     retryCount: 0,
@@ -87,30 +141,37 @@ export class TuyaAccessory {
     consecutiveTimeouts: 0,
   };
   private readonly cacheTimeout = 500; // Cache timeout in milliseconds
-  private refreshInterval: NodeJS.Timeout;
-  private retryTimeout: NodeJS.Timeout | null = null;
+  // When HomeKit last changed the device and when it last reported a different state, which set the poll interval
+  private lastAction = 0;
+  private lastChange = Date.now();
+  private destroyed = false;
+  private readonly observers: Set<DeviceObserver> = new Set();
+  private readonly health = new HealthCounters();
+  private readonly commands = new CommandQueue(this.sendDps.bind(this));
 
   constructor(
-    private readonly platform: LocalTuyaPlatform,
-    private readonly accessory: PlatformAccessory,
+    public readonly platform: LocalTuyaPlatform,
+    public readonly accessory: PlatformAccessory,
+    deviceType: DeviceTypeDefinition,
+    // Gateway whose shared connection serves this device, for sub-devices with a `cid`
+    public readonly gateway?: TuyaGateway,
   ) {
-    const deviceInfo = accessory.context.device;
+    const deviceInfo: DeviceConfig = accessory.context.device;
+    this.deviceConfig = deviceInfo;
+    this.dpsMapping = resolveDpsMapping(deviceInfo.profile, deviceInfo.dps, deviceType.profile);
+    this.pushOnly = deviceType.pushOnly ?? false;
+    this.pollSettings = resolvePollSettings(platform.polling, deviceInfo.polling);
+    this.debugLevel = resolveDebugLevel(deviceInfo.debug, platform.config.debug);
 
-    // Initialize Tuya device
-    this.device = new TuyAPI({
-      id: deviceInfo.id,
-      ip: deviceInfo.ip,
-      key: deviceInfo.key,
-      version: 3.3,
-    });
+    // Use the configured protocol version, or the one cached by a previous auto-detection
+    const configuredVersion = deviceInfo.protocolVersion ?? DEFAULT_PROTOCOL_VERSION;
+    this.protocolVersion = configuredVersion === 'auto' ? accessory.context.protocolVersion : configuredVersion;
 
-    // Set up event handlers
-    this.device.on('error', this.handleDeviceError.bind(this));
-    this.device.on('connected', this.handleDeviceConnected.bind(this));
-    this.device.on('disconnected', this.handleDeviceDisconnected.bind(this));
+    // Devices configured without an address use the one last found by discovery
+    this.ip = deviceInfo.ip || accessory.context.ip;
 
-    // Start periodic state refresh
-    this.refreshInterval = setInterval(this.refreshState.bind(this), REFRESH_INTERVAL);
+    // Initialize Tuya device
+    this.device = this.createDevice(this.protocolVersion ?? DEFAULT_PROTOCOL_VERSION);
 
     // Set up status reporting characteristic
     const infoService = this.accessory.getService(this.platform.Service.AccessoryInformation)!;
@@ -121,330 +182,774 @@ export class TuyaAccessory {
 
     // Set accessory information
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Designers Fountain')
-      .setCharacteristic(this.platform.Characteristic.Model, 'Ceiling Fan DF')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, deviceInfo.id);
+      .setCharacteristic(this.platform.Characteristic.Name, deviceInfo.name)
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, deviceType.manufacturer)
+      .setCharacteristic(this.platform.Characteristic.Model, deviceType.model)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, deviceInfo.cid ?? deviceInfo.id);
+
+    // Set up the HomeKit services for this device type
+    this.handlers = deviceType.createHandlers(this);
+    this.removeUnusedServices();
+
+    // Start from the last state reported before the restart until the device answers
+    if (accessory.context.dps) {
+      this.applyDps(accessory.context.dps);
+    }
 
-    // Fan service
-    this.fanService = this.accessory.getService(this.platform.Service.Fanv2) || 
-      this.accessory.addService(this.platform.Service.Fanv2);
+    // Connect as soon as the scheduler gets to it, the connection is kept open so the device can push state changes
+    this.schedulePoll(0);
+  }
 
-    // Light service
-    this.lightService = this.accessory.getService(this.platform.Service.Lightbulb) || 
-      this.accessory.addService(this.platform.Service.Lightbulb);
+  /**
+   * Returns the service of the given type, adding it to the accessory if it does not exist yet.
+   * A subtype is required when the accessory holds more than one service of the same type.
+   * Cached services renamed in the config also get a new ConfiguredName, which the Home app shows.
+   */
+  public getOrAddService(serviceType: ServiceType, name: string, subtype?: string): Service {
+    const { Characteristic } = this.platform;
+    const cached = subtype
+      ? this.accessory.getServiceById(serviceType.UUID, subtype)
+      : this.accessory.services.find((service) => service.UUID === serviceType.UUID);
+    const service = cached || this.accessory.addService(new serviceType(name, subtype));
+
+    if (cached && cached.getCharacteristic(Characteristic.Name).value !== name) {
+      this.platform.log.info(`Renaming ${cached.displayName} service to ${name}`);
+      cached.displayName = name;
+      if (!cached.testCharacteristic(Characteristic.ConfiguredName)) {
+        cached.addOptionalCharacteristic(Characteristic.ConfiguredName);
+      }
+      cached.setCharacteristic(Characteristic.ConfiguredName, name);
+    }
 
-    // Set service names
-    this.fanService.setCharacteristic(this.platform.Characteristic.Name, deviceInfo.name + ' Fan');
-    this.lightService.setCharacteristic(this.platform.Characteristic.Name, deviceInfo.name + ' Light');
+    service.setCharacteristic(Characteristic.Name, name);
+    this.usedServices.add(service);
+    return service;
+  }
 
-    // Fan characteristics
-    this.fanService.getCharacteristic(this.platform.Characteristic.Active)
-      .onSet(this.setFanActive.bind(this))
-      .onGet(this.getFanActive.bind(this));
+  /**
+   * The first service the handlers set up, such as the Fanv2 of a fan with a light,
+   * for settings that belong to the device as a whole
+   */
+  public get primaryService(): Service | undefined {
+    return this.usedServices.values().next().value;
+  }
 
-    this.fanService.getCharacteristic(this.platform.Characteristic.RotationSpeed)
-      .onSet(this.setFanSpeed.bind(this))
-      .onGet(this.getFanSpeed.bind(this));
+  /**
+   * Removes services restored from the cache that the current device type no longer uses,
+   * for example the Lightbulb of a device changed from `fanLight` to `fan`.
+   */
+  private removeUnusedServices() {
+    for (const service of [...this.accessory.services]) {
+      if (service.UUID === this.platform.Service.AccessoryInformation.UUID || this.usedServices.has(service)) {
+        continue;
+      }
+      this.platform.log.info(`Removing unused ${service.displayName || service.UUID} service from ${this.accessory.displayName}`);
+      this.accessory.removeService(service);
+    }
+  }
+
+  private createDevice(version: string): TuyaConnection {
+    const device: TuyaConnection = this.gateway && this.deviceConfig.cid
+      ? this.gateway.connect(this.deviceConfig.cid)
+      : new TuyAPI({
+        id: this.deviceConfig.id,
+        ip: this.ip,
+        key: this.deviceConfig.key,
+        version,
+      });
+
+    // Raw traffic for the trace debug level, replies to requests also arrive as data
+    for (const event of ['data', 'dp-refresh', 'heartbeat', 'connected', 'disconnected']) {
+      device.on(event, (payload?: unknown, command?: number, sequence?: number) => {
+        const frame = command === undefined ? '' : ` (command ${command}, sequence ${sequence})`;
+        this.trace('received', `${event}${frame}`, payload);
+      });
+    }
+
+    // Set up event handlers
+    device.on('error', this.handleDeviceError.bind(this));
+    device.on('connected', this.handleDeviceConnected.bind(this));
+    device.on('disconnected', this.handleDeviceDisconnected.bind(this));
+    device.on('data', this.handleDeviceData.bind(this));
+    device.on('dp-refresh', this.handleDeviceData.bind(this));
+
+    return device;
+  }
+
+  /**
+   * Swaps the connection for one using the current address and the given protocol version
+   */
+  private replaceDevice(version: string) {
+    this.closeDevice();
+    this.device = this.createDevice(version);
+  }
+
+  /**
+   * Drops the connection quietly, its disconnect must not mark the device offline
+   */
+  private closeDevice() {
+    this.device.removeAllListeners();
+    this.device.on('error', () => undefined);
+    this.device.disconnect();
+  }
+
+  /**
+   * Called by the platform when LAN discovery reports this device, to fill in a missing address
+   * or follow the device to a new one. A reported protocol version is adopted while auto-detecting.
+   */
+  public updateAddress(ip: string, version?: string) {
+    let changed = false;
+
+    if (version && this.isAutoDetecting && version !== this.protocolVersion && PROTOCOL_VERSIONS.includes(version)) {
+      this.platform.log.info(`Device ${this.accessory.displayName} announces protocol version ${version}`);
+      this.protocolVersion = version;
+      this.accessory.context.protocolVersion = version;
+      changed = true;
+    }
 
-    // Light characteristics
-    this.lightService.getCharacteristic(this.platform.Characteristic.On)
-      .onSet(this.setLightOn.bind(this))
-      .onGet(this.getLightOn.bind(this));
+    if (ip !== this.ip) {
+      if (this.ip) {
+        this.platform.log.info(`Device ${this.accessory.displayName} moved from ${this.ip} to ${ip}`);
+      } else {
+        this.platform.log.info(`Device ${this.accessory.displayName} found at ${ip}`);
+      }
+      this.ip = ip;
+      this.accessory.context.ip = ip;
+      changed = true;
+    }
 
-    this.lightService.getCharacteristic(this.platform.Characteristic.Brightness)
-      .onSet(this.setLightBrightness.bind(this))
-      .onGet(this.getLightBrightness.bind(this));
+    if (!changed) {
+      this.handleWakeUp();
+      return;
+    }
+
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.replaceDevice(this.protocolVersion ?? DEFAULT_PROTOCOL_VERSION);
+    this.state.lastUpdate = 0;
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Called by the platform when LAN discovery hears this device. A sleeping device announces itself
+   * when it wakes up, which is the moment to connect so it can push what has changed.
+   */
+  public handleWakeUp() {
+    if (this.pushOnly && !this.device.isConnected()) {
+      this.schedulePoll(0);
+    }
+  }
+
+  private get isAutoDetecting(): boolean {
+    return this.deviceConfig.protocolVersion === 'auto';
+  }
+
+  /**
+   * Probes each supported protocol version in turn until the device answers a status query,
+   * then switches to that version and caches it in the accessory context.
+   * Concurrent callers share the same detection run.
+   */
+  private detectProtocolVersion(): Promise<boolean> {
+    if (!this.detecting) {
+      this.detecting = this.probeProtocolVersions().finally(() => {
+        this.detecting = null;
+      });
+    }
+    return this.detecting;
+  }
+
+  private async probeProtocolVersions(): Promise<boolean> {
+    for (const version of PROTOCOL_VERSIONS) {
+      const probe = new TuyAPI({
+        id: this.deviceConfig.id,
+        ip: this.ip,
+        key: this.deviceConfig.key,
+        version,
+      });
+      // Errors from a probe are expected for wrong versions and only mean "try the next one"
+      probe.on('error', () => undefined);
+
+      let timeout: NodeJS.Timeout | undefined;
+      try {
+        this.trace('sent', `status query using protocol ${version}`);
+        const response = await Promise.race([
+          probe.get({ schema: true }),
+          new Promise<never>((_, reject) => {
+            timeout = setTimeout(() => reject(new Error('Operation timed out')), this.pollSettings.detectTimeout);
+          }),
+        ]);
+
+        if (response && typeof response === 'object' && 'dps' in response) {
+          this.platform.log.info(`Device ${this.accessory.displayName} responds to protocol version ${version}`);
+          this.protocolVersion = version;
+          this.accessory.context.protocolVersion = version;
+          this.platform.api.updatePlatformAccessories([this.accessory]);
+
+          this.replaceDevice(version);
+          return true;
+        }
+      } catch (error) {
+        if (this.debugging) {
+          this.debug(`Device ${this.accessory.displayName} did not respond to protocol version ${version}:`, error);
+        }
+      } finally {
+        clearTimeout(timeout);
+        probe.disconnect();
+      }
+    }
+
+    this.platform.log.warn(`Device ${this.accessory.displayName} did not respond to any protocol version (${PROTOCOL_VERSIONS.join(', ')})`);
+    return false;
+  }
+
+  private get debugging(): boolean {
+    return this.debugLevel !== 'off';
+  }
+
+  /**
+   * Logs a debug message about this device. A device with a debug level logs it at info level,
+   * so it shows without running Homebridge in debug mode.
+   */
+  private debug(message: string, ...parameters: unknown[]) {
+    if (this.debugging) {
+      this.platform.log.info(message, ...parameters);
+    } else {
+      this.platform.log.debug(message, ...parameters);
+    }
+  }
+
+  /**
+   * Logs a message sent to or received from the device at the `trace` debug level
+   */
+  private trace(direction: 'sent' | 'received', what: string, payload?: unknown) {
+    if (this.debugLevel === 'trace') {
+      const text = payload === undefined ? '' : ` ${JSON.stringify(redact(payload, [this.deviceConfig.key]))}`;
+      this.platform.log.info(`[trace] ${this.accessory.displayName} ${direction} ${what}${text}`);
+    }
   }
 
   private isCacheValid(): boolean {
     return Date.now() - this.state.lastUpdate < this.cacheTimeout;
   }
 
+  /**
+   * Whether the state is kept up to date by the device itself: the connection is open, so the device
+   * pushes its changes, and it has answered or pushed within the poll interval
+   */
+  private isPushedStateFresh(): boolean {
+    return this.device.isConnected() && this.state.consecutiveTimeouts === 0
+      && Date.now() - this.state.lastUpdate < this.pollSettings.interval;
+  }
+
   private handleDeviceError(error: Error) {
-    if (this.platform.config.debug || (!error.message.includes('EHOSTUNREACH') && !error.message.includes('ETIMEDOUT'))) {
+    // A sleeping push-only device refuses connections, which is expected
+    const asleep = this.pushOnly && error.message.includes('ECONNREFUSED');
+    // Timeouts are reported once they take the device offline
+    if (this.debugging || (!error.message.includes('EHOSTUNREACH') && !isTimeout(error) && !asleep)) {
       this.platform.log.error(`Device ${this.accessory.displayName} error:`, error.message);
     }
-    if (error.message.includes('EHOSTUNREACH') || error.message.includes('ETIMEDOUT') || error.message.includes('ECONNREFUSED')) {
+    if (error.message.includes('EHOSTUNREACH') || error.message.includes('ETIMEDOUT') || error.message.includes('ECONNREFUSED')
+      || this.state.consecutiveTimeouts >= OFFLINE_AFTER_TIMEOUTS) {
       this.handleDeviceDisconnected();
     }
   }
 
+  /**
+   * Applies state pushed by the device over the open connection, for example after
+   * a change from the wall remote or the Smart Life app.
+   */
+  private handleDeviceData(data: unknown, command?: number) {
+    if (!data || typeof data !== 'object') {
+      return;
+    }
+
+    const dps = (data as TuyaResponse).dps;
+    if (!dps || typeof dps !== 'object') {
+      return;
+    }
+
+    this.applyDps(dps);
+    if (command === STATUS_COMMAND) {
+      for (const observer of this.observers) {
+        observer.dpsReported?.(dps);
+      }
+    }
+    this.state.lastUpdate = Date.now();
+    this.handleDeviceConnected();
+    if (this.debugging) {
+      this.debug(`Device ${this.accessory.displayName} pushed:`, dps);
+    }
+  }
+
+  private applyDps(dps: Record<string, unknown>) {
+    const changed = Object.entries(dps).some(([key, value]) => !isDeepStrictEqual(this.accessory.context.dps?.[key], value));
+    if (changed) {
+      this.lastChange = Date.now();
+    }
+
+    // Remember the last known value of each data point, saved with the cached accessory
+    this.accessory.context.dps = { ...this.accessory.context.dps, ...dps };
+
+    // Let each handler parse the values it is interested in
+    for (const handler of this.handlers) {
+      handler.applyDps(dps);
+    }
+
+    if (changed) {
+      for (const observer of this.observers) {
+        observer.dpsChanged?.(dps);
+      }
+    }
+  }
+
+  /**
+   * Starts notifying the observer of changes, returns a function that stops it again
+   */
+  public observe(observer: DeviceObserver): () => void {
+    this.observers.add(observer);
+    return () => this.observers.delete(observer);
+  }
+
+  private notifyOnline() {
+    for (const observer of this.observers) {
+      observer.onlineChanged?.(this.state.isOnline);
+    }
+  }
+
   private handleDeviceConnected() {
+    // A device heard from again starts a new run of timeouts
+    this.state.consecutiveTimeouts = 0;
+    this.state.lastError = undefined;
     if (!this.state.isOnline) {
-      this.platform.log.info(`Device ${this.accessory.displayName} is back online`);
+      const outage = this.state.offlineSince ? ` after ${formatDuration(Date.now() - this.state.offlineSince)} offline` : '';
+      this.platform.log.info(`Device ${this.accessory.displayName} is back online${outage}`);
       this.state.isOnline = true;
+      this.state.offlineSince = undefined;
       this.state.retryCount = 0;
+      this.health.recordReconnect();
       // Update HomeKit status
       this.accessory.getService(this.platform.Service.AccessoryInformation)!
         .updateCharacteristic(this.platform.Characteristic.StatusActive, true);
-      if (this.retryTimeout) {
-        clearTimeout(this.retryTimeout);
-        this.retryTimeout = null;
-      }
+      this.notifyOnline();
+      // Back from the retry backoff to the regular interval
+      this.schedulePoll();
     }
   }
 
   private handleDeviceDisconnected() {
+    // Push-only devices drop the connection whenever they go to sleep, that is not an outage
+    if (this.pushOnly) {
+      this.debug(`Device ${this.accessory.displayName} disconnected, waiting for it to wake up`);
+      return;
+    }
     if (this.state.isOnline) {
-      this.platform.log.warn(`Device ${this.accessory.displayName} is offline`);
+      const reason = this.state.lastError ? ` (${this.state.lastError})` : '';
+      this.platform.log.warn(`Device ${this.accessory.displayName} is offline${reason}, HomeKit will show it as not responding`);
       this.state.isOnline = false;
+      this.state.offlineSince = Date.now();
       // Update HomeKit status
       this.accessory.getService(this.platform.Service.AccessoryInformation)!
         .updateCharacteristic(this.platform.Characteristic.StatusActive, false);
-      this.scheduleRetry();
+      this.notifyOnline();
+      this.schedulePoll();
     }
   }
 
-  private scheduleRetry() {
-    if (this.state.retryCount >= MAX_RETRIES) {
-      this.platform.log.warn(`Device ${this.accessory.displayName} offline - will retry in 5 minutes`);
-      // Reset retry count and schedule a retry with maximum delay
-      this.state.retryCount = 0;
-      if (this.retryTimeout) {
-        clearTimeout(this.retryTimeout);
-      }
-      this.retryTimeout = setTimeout(() => this.refreshState(), MAX_RETRY_DELAY);
+  /**
+   * Schedules the next poll with the platform scheduler, replacing any pending one: after `delay`
+   * when given, otherwise after the retry backoff of an offline device or the interval that suits
+   * how active the device is. Push-only devices are only polled when asked, they cannot answer while asleep.
+   */
+  private schedulePoll(delay?: number) {
+    if (this.destroyed || (delay === undefined && this.pushOnly)) {
       return;
     }
+    const next = delay ?? (this.state.isOnline
+      ? pollDelay(this.pollSettings, { lastAction: this.lastAction, lastChange: this.lastChange }, Date.now())
+      : this.nextRetryDelay());
+    this.platform.scheduler.schedule(this.accessory.UUID, next, this.poll.bind(this));
+  }
 
-    if (this.retryTimeout) {
-      clearTimeout(this.retryTimeout);
+  /**
+   * Backoff before the next reconnection attempt. After `maxRetries` attempts the device is
+   * left for the longest delay and the count starts over.
+   */
+  private nextRetryDelay(): number {
+    const { maxRetries, maxRetryDelay } = this.pollSettings;
+    if (this.state.retryCount < maxRetries) {
+      return retryDelay(this.pollSettings, this.state.retryCount);
     }
 
-    // Calculate exponential backoff delay
-    const delay = Math.min(
-      BASE_RETRY_DELAY * Math.pow(2, this.state.retryCount),
-      MAX_RETRY_DELAY,
-    );
+    this.platform.log.warn(`Device ${this.accessory.displayName} offline - will retry in ${formatDuration(maxRetryDelay)}`);
+    this.state.retryCount = 0;
+    // The device may have switched protocol versions after a firmware update, detect it again
+    if (this.isAutoDetecting) {
+      this.protocolVersion = undefined;
+      delete this.accessory.context.protocolVersion;
+    }
+    return maxRetryDelay;
+  }
 
-    this.retryTimeout = setTimeout(async () => {
-      try {
+  /**
+   * Runs when the scheduler gets to this device: a reconnection attempt while it is offline,
+   * otherwise a fallback poll. The fallback is skipped while the device keeps its connection
+   * open and has reported recently, unless HomeKit has just changed it.
+   */
+  private async poll() {
+    const now = Date.now();
+    if (!this.state.isOnline) {
+      if (this.debugging) {
+        this.debug(`Attempting to reconnect to ${this.accessory.displayName} (attempt ${this.state.retryCount + 1})`);
+      }
+      await this.refreshState();
+      if (!this.state.isOnline) {
         this.state.retryCount++;
-        if (this.platform.config.debug) {
-          this.platform.log.debug(`Attempting to reconnect to ${this.accessory.displayName} (attempt ${this.state.retryCount})`);
-        }
+      }
+    } else {
+      const active = now - this.lastAction < this.pollSettings.activeTime;
+      if (active || !this.isPushedStateFresh()) {
         await this.refreshState();
-      } catch (error) {
-        if (this.platform.config.debug) {
-          this.platform.log.debug(`Retry attempt ${this.state.retryCount} failed:`, error);
-        }
-        if (this.state.retryCount < MAX_RETRIES) {
-          this.scheduleRetry();
-        }
       }
-    }, delay);
+    }
+
+    // Anything that happened during the poll may already have scheduled the next one
+    if (!this.platform.scheduler.isScheduled(this.accessory.UUID)) {
+      this.schedulePoll();
+    }
   }
 
+  /**
+   * Runs an operation on a device that is online, returning the default value when it is not
+   * or when the operation fails. Requests to the device time out on their own, and their
+   * timeouts count towards taking the device offline.
+   */
   private async safeDeviceOperation<T>(operation: () => Promise<T>, defaultValue: T): Promise<T> {
-    // Create a timeout promise
-    const timeoutPromise = new Promise<T>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error('Operation timed out'));
-      }, OPERATION_TIMEOUT);
-    });
-
-    // If device is offline or has recent timeouts, return default value immediately
-    if (!this.state.isOnline || 
-        (this.state.consecutiveTimeouts >= 3 && 
-         Date.now() - this.state.lastConnectionAttempt < 5000)) {
+    if (!this.ip || !this.state.isOnline) {
       return defaultValue;
     }
 
     try {
-      // Race between the operation and the timeout
-      const result = await Promise.race([
-        operation(),
-        timeoutPromise,
-      ]);
-      
-      // Successful operation, reset timeout counter
-      this.state.consecutiveTimeouts = 0;
-      return result;
+      return await operation();
     } catch (error) {
-      this.handleDeviceError(error as Error);
+      const err = error instanceof Error ? error : new Error('Unknown error');
+      this.state.lastError = err.message;
+      this.recordFailure(err);
+      this.handleDeviceError(err);
       return defaultValue;
     }
   }
 
   private async refreshState() {
-    // Skip refresh if device is offline and max retries reached
-    if (!this.state.isOnline && this.state.retryCount >= MAX_RETRIES) {
+    // Skip refresh if cache is still valid
+    if (this.isCacheValid()) {
       return;
     }
 
-    // Skip refresh if cache is still valid
-    if (this.isCacheValid()) {
+    // Nothing to talk to until discovery has found the device
+    if (!this.ip) {
+      this.debug(`Device ${this.accessory.displayName} has no IP address yet, waiting for discovery`);
       return;
     }
 
+    // Work out the protocol version first if it is not known yet
+    if (!this.protocolVersion && !await this.detectProtocolVersion()) {
+      this.state.lastError = 'No supported protocol version responded';
+      this.handleDeviceDisconnected();
+      return;
+    }
+
+    const started = Date.now();
+    this.state.lastConnectionAttempt = started;
+    let timeout: NodeJS.Timeout | undefined;
     try {
-      const response = await this.device.get({ schema: true });
+      this.trace('sent', 'status query');
+      // A device that keeps the connection open but stops answering must not hold up its poll slot
+      const response = await Promise.race([
+        this.device.get({ schema: true }),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Operation timed out')), this.pollSettings.timeout);
+        }),
+      ]);
       
-      if (!isValidResponse(response, this.state.consecutiveTimeouts > 0)) {
-        if (this.platform.config.debug) {
-          this.platform.log.debug(`Invalid device response: ${JSON.stringify(response)}`);
+      if (!isValidResponse(response, this.dpsMapping, this.state.consecutiveTimeouts > 0)) {
+        if (this.debugging) {
+          this.debug(`Invalid response from ${this.accessory.displayName}: ${JSON.stringify(redact(response))}`);
         }
         throw new Error('Invalid device response format');
       }
 
       const dps = response.dps;
+      this.health.recordSuccess(Date.now() - started);
       
-      // Safely parse each value with validation
-      const fanSpeed = parseDpsValue(dps, '53', this.state.fanSpeed === 0 ? 1 : Math.round((this.state.fanSpeed / 100) * 5) + 1);
-      const brightness = parseDpsValue(dps, '22', this.state.lightBrightness === 0 ? 10 : Math.round((this.state.lightBrightness / 100) * 990) + 10);
+      this.applyDps(dps);
 
       this.state = {
         ...this.state,
-        fanActive: parseDpsValue(dps, '51', this.state.fanActive) as boolean,
-        fanSpeed: ((fanSpeed as number - 1) / 5) * 100,
-        lightOn: parseDpsValue(dps, '20', this.state.lightOn) as boolean,
-        lightBrightness: ((brightness as number - 10) / 990) * 100,
         lastUpdate: Date.now(),
-        isOnline: true,
         retryCount: 0,
         lastError: undefined,
+        consecutiveTimeouts: 0,
       };
 
       this.handleDeviceConnected();
-      if (this.platform.config.debug) {
-        this.platform.log.debug('State refreshed:', this.state);
+      if (this.debugging) {
+        this.debug(`Device ${this.accessory.displayName} refreshed:`, dps, this.state);
       }
     } catch (error) {
       const err = error instanceof Error ? error : new Error('Unknown error');
       this.state.lastError = err.message;
+      this.recordFailure(err);
       this.handleDeviceError(err);
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
-  // Fan control methods
-  async setFanActive(value: CharacteristicValue) {
-    try {
-      await this.safeDeviceOperation(async () => {
-        await this.device.set({ dps: 51, set: value === 1 }); // Toggle fan
-        this.state.fanActive = value === 1;
-        this.state.lastUpdate = Date.now();
-        this.platform.log.debug('Set Fan Active ->', value);
-      }, undefined);
-    } catch (error) {
-      // Update state anyway to maintain consistency with HomeKit
-      this.state.fanActive = value === 1;
-      throw error;
+  /**
+   * Counts a failed request in the health counters and in the run of timeouts
+   */
+  private recordFailure(error: Error) {
+    this.health.recordFailure(error);
+    if (isTimeout(error)) {
+      this.state.consecutiveTimeouts++;
     }
   }
 
-  async getFanActive(): Promise<CharacteristicValue> {
-    // Always check cache first
-    if (this.isCacheValid() || !this.state.isOnline) {
-      return this.state.fanActive ? 1 : 0;
+  /**
+   * Converts values keyed by function into values keyed by data point.
+   * Functions without a mapping for this device are left out.
+   */
+  private toDpsData(values: DpsValues): DpsData {
+    const data: DpsData = {};
+    for (const [name, value] of Object.entries(values) as [DpsFunctionName, boolean | number | string][]) {
+      const fn = this.dpsMapping[name];
+      if (!fn) {
+        this.debug(`Device ${this.accessory.displayName} has no DPS mapped for ${name}`);
+        continue;
+      }
+      data[String(fn.dps)] = value;
     }
+    return data;
+  }
 
-    const result = await this.safeDeviceOperation(async () => {
-      await this.refreshState();
-      return this.state.fanActive ? 1 : 0;
-    }, this.state.fanActive ? 1 : 0);
+  /**
+   * Sends a batch of values in one command, which the command queue calls one batch at a time.
+   * Resolves with the state the device reports for the written data points, querying the
+   * device when its reply leaves some of them out.
+   */
+  private async sendDps(data: DpsData): Promise<Record<string, unknown>> {
+    if (!this.ip) {
+      throw new Error('No IP address known yet');
+    }
 
-    return result;
-  }
+    const entries = Object.entries(data);
+    const write = async () => {
+      this.trace('sent', 'set', data);
+      const reply = entries.length === 1
+        ? await this.device.set({ dps: Number(entries[0][0]), set: entries[0][1] })
+        : await this.device.set({ multiple: true, data });
+
+      let reported: Record<string, unknown> = reply && typeof reply === 'object' && reply.dps ? reply.dps : {};
+      if (entries.some(([dps]) => !(dps in reported))) {
+        this.trace('sent', 'status query');
+        const status = await this.device.get({ schema: true });
+        if (status && typeof status === 'object' && status.dps) {
+          reported = { ...reported, ...status.dps };
+        }
+      }
+      return reported;
+    };
 
-  async setFanSpeed(value: CharacteristicValue) {
+    const started = Date.now();
+    let timeout: NodeJS.Timeout | undefined;
     try {
-      await this.safeDeviceOperation(async () => {
-        // Convert 0-100 to 1-6 range
-        const speed = Math.round((value as number / 100) * 5) + 1;
-        await this.device.set({ dps: 53, set: speed }); // Set fan speed
-        this.state.fanSpeed = value as number;
-        this.state.lastUpdate = Date.now();
-        this.platform.log.debug('Set Fan Speed ->', value, 'Tuya Speed ->', speed);
-      }, undefined);
+      const reported = await Promise.race([
+        write(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Operation timed out')), this.pollSettings.writeTimeout);
+        }),
+      ]);
+      this.state.consecutiveTimeouts = 0;
+      this.health.recordSuccess(Date.now() - started);
+      return Object.fromEntries(entries.filter(([dps]) => dps in reported).map(([dps]) => [dps, reported[dps]]));
     } catch (error) {
-      // Update state anyway to maintain consistency with HomeKit
-      this.state.fanSpeed = value as number;
-      throw error;
+      const err = error instanceof Error ? error : new Error('Unknown error');
+      this.state.lastError = err.message;
+      this.recordFailure(err);
+      this.handleDeviceError(err);
+      throw err;
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
-  async getFanSpeed(): Promise<CharacteristicValue> {
-    // Always check cache first
-    if (this.isCacheValid() || !this.state.isOnline) {
-      return this.state.fanSpeed;
-    }
+  /**
+   * Writes a native value for the given function and applies the matching HomeKit state,
+   * see writeStates.
+   */
+  public async writeState(name: DpsFunctionName, value: boolean | number | string, apply: () => void) {
+    await this.writeStates({ [name]: value }, apply);
+  }
 
-    const result = await this.safeDeviceOperation(async () => {
-      await this.refreshState();
-      return this.state.fanSpeed;
-    }, this.state.fanSpeed);
+  /**
+   * Writes native values for several functions at once, for changes that only make sense
+   * together such as switching a light to colour mode along with the new colour.
+   * Values go through the command queue, so they may share one command with other changes.
+   * The HomeKit state is applied once the device confirms the write; a failed write is
+   * reported to HomeKit as a communication failure and leaves the state untouched.
+   */
+  public async writeStates(values: DpsValues, apply: () => void) {
+    if (!this.isReachable) {
+      throw this.communicationFailure();
+    }
 
-    return result;
-  }
+    const data = this.toDpsData(values);
+    if (Object.keys(data).length === 0) {
+      apply();
+      return;
+    }
 
-  // Light control methods
-  async setLightOn(value: CharacteristicValue) {
+    let reported: Record<string, unknown>;
     try {
-      await this.safeDeviceOperation(async () => {
-        await this.device.set({ dps: 20, set: value as boolean }); // Toggle light
-        this.state.lightOn = value as boolean;
-        this.state.lastUpdate = Date.now();
-        this.platform.log.debug('Set Light On ->', value);
-      }, undefined);
+      reported = await this.commands.push(data);
     } catch (error) {
-      // Update state anyway to maintain consistency with HomeKit
-      this.state.lightOn = value as boolean;
-      throw error;
+      this.platform.log.warn(`Failed to set ${this.accessory.displayName}:`, (error as Error).message);
+      throw this.communicationFailure();
     }
-  }
 
-  async getLightOn(): Promise<CharacteristicValue> {
-    // Always check cache first
-    if (this.isCacheValid() || !this.state.isOnline) {
-      return this.state.lightOn;
-    }
+    apply();
+    this.state.lastUpdate = Date.now();
+    this.debug(`Set ${this.accessory.displayName} ->`, values);
 
-    const result = await this.safeDeviceOperation(async () => {
-      await this.refreshState();
-      return this.state.lightOn;
-    }, this.state.lightOn);
+    // Poll more often for a while, to pick up what follows from the change
+    this.lastAction = Date.now();
+    this.schedulePoll();
 
-    return result;
+    // The device may round or refuse a value, HomeKit follows what it reports
+    const differing = Object.fromEntries(Object.entries(reported).filter(([dps, value]) => value !== data[dps]));
+    if (Object.keys(differing).length > 0) {
+      this.debug(`Device ${this.accessory.displayName} reported`, differing, 'after the write');
+      this.applyDps(differing);
+    }
   }
 
-  async setLightBrightness(value: CharacteristicValue) {
+  /**
+   * Writes native values keyed by data point in one command, such as this device's part of a scene.
+   * Every handler follows what the device reports back, so HomeKit shows the new state.
+   */
+  public async writeDps(data: DpsData) {
+    if (!this.isReachable) {
+      throw this.communicationFailure();
+    }
+
+    let reported: Record<string, unknown>;
     try {
-      await this.safeDeviceOperation(async () => {
-        // Convert 0-100 to 10-1000 range
-        const brightness = Math.round(((value as number) / 100) * 990) + 10;
-        await this.device.set({ dps: 22, set: brightness }); // Set brightness
-        this.state.lightBrightness = value as number;
-        this.state.lastUpdate = Date.now();
-        this.platform.log.debug('Set Light Brightness ->', value, 'Tuya Brightness ->', brightness);
-      }, undefined);
+      reported = await this.commands.push(data);
     } catch (error) {
-      // Update state anyway to maintain consistency with HomeKit
-      this.state.lightBrightness = value as number;
-      throw error;
+      this.platform.log.warn(`Failed to set ${this.accessory.displayName}:`, (error as Error).message);
+      throw this.communicationFailure();
     }
+
+    this.state.lastUpdate = Date.now();
+    this.debug(`Set ${this.accessory.displayName} ->`, data);
+    this.applyDps({ ...data, ...reported });
+
+    this.lastAction = Date.now();
+    this.schedulePoll();
   }
 
-  async getLightBrightness(): Promise<CharacteristicValue> {
-    // Always check cache first
-    if (this.isCacheValid() || !this.state.isOnline) {
-      return this.state.lightBrightness;
+  /**
+   * Reads a HomeKit value from the handler state, refreshing it from the device first
+   * when the state may be stale: the device is not connected to push its changes, or has
+   * not been heard from within the poll interval. Offline devices fail the read, so the
+   * Home app shows them as not responding instead of showing a stale state.
+   * Push-only devices cannot be asked while asleep and always answer with the last pushed state.
+   */
+  public async readState<T extends CharacteristicValue>(read: () => T): Promise<T> {
+    if (this.pushOnly) {
+      return read();
     }
 
-    const result = await this.safeDeviceOperation(async () => {
-      await this.refreshState();
-      return this.state.lightBrightness;
-    }, this.state.lightBrightness);
+    if (!this.isReachable) {
+      throw this.communicationFailure();
+    }
+
+    // Serve the last known state while it is fresh, a device that does not answer
+    // fails the read rather than showing a state that may be out of date
+    if (!this.isCacheValid() && !this.isPushedStateFresh()) {
+      const started = Date.now();
+      await this.safeDeviceOperation(() => this.refreshState(), undefined);
+      if (!this.isReachable || this.state.lastUpdate < started) {
+        throw this.communicationFailure();
+      }
+    }
+
+    return read();
+  }
 
-    return result;
+  /**
+   * Connection state of the device, a copy for reporting
+   */
+  public get deviceState(): DeviceState {
+    return { ...this.state };
+  }
+
+  /**
+   * Last known value of each data point, as reported by the device or written to it
+   */
+  public get dps(): Record<string, unknown> {
+    return { ...this.accessory.context.dps };
+  }
+
+  /**
+   * What a bug report about this device needs, with its local key hidden
+   */
+  public diagnostics(): DeviceDiagnostics {
+    return redact({
+      name: this.accessory.displayName,
+      type: this.deviceConfig.type ?? DEFAULT_DEVICE_TYPE,
+      protocolVersion: this.protocolVersion,
+      ip: this.ip,
+      debug: this.debugLevel,
+      config: this.deviceConfig,
+      mapping: this.dpsMapping,
+      state: this.deviceState,
+      health: this.health.snapshot(),
+      dps: this.dps,
+    }, [this.deviceConfig.key]);
+  }
+
+  /**
+   * Whether the connection to the device is open, so what it reports is live rather than
+   * the state cached from before a restart
+   */
+  public get isConnected(): boolean {
+    return this.device.isConnected();
+  }
+
+  /**
+   * Whether the device has an address and answered recently
+   */
+  public get isReachable(): boolean {
+    return !!this.ip && this.state.isOnline;
+  }
+
+  /**
+   * The error HomeKit shows as "No Response"
+   */
+  private communicationFailure() {
+    const { HapStatusError, HAPStatus } = this.platform.api.hap;
+    return new HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
   }
 
   // Cleanup method
   public destroy() {
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
-    }
-    if (this.retryTimeout) {
-      clearTimeout(this.retryTimeout);
+    this.destroyed = true;
+    this.platform.scheduler.cancel(this.accessory.UUID);
+    this.commands.clear(new Error('Accessory removed'));
+    this.closeDevice();
+    this.observers.clear();
+    for (const handler of this.handlers) {
+      handler.destroy?.();
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,208 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { DpsData } from './commandQueue.js';
+import type { SceneAction, SceneConfig } from './config.js';
+import { encodeDpsState, fromPercent, fromStepPercent } from './dps.js';
+import type { DpsFunction, DpsMapping } from './dps.js';
+import type { LocalTuyaPlatform } from './platform.js';
+import type { TuyaAccessory } from './platformAccessory.js';
+
+// How long the scene switch shows as on before turning itself off again
+const MOMENTARY_DELAY = 1000;
+
+const TRUE_WORDS = ['true', 'on', 'yes'];
+const FALSE_WORDS = ['false', 'off', 'no'];
+
+/**
+ * Reads `true`, `on` and the like as a boolean, undefined for anything else
+ */
+function parseBoolean(value: boolean | number | string): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const word = String(value).toLowerCase();
+  return TRUE_WORDS.includes(word) ? true : FALSE_WORDS.includes(word) ? false : undefined;
+}
+
+/**
+ * Reads `30%` and the like as a percentage, undefined for anything else
+ */
+function parsePercentage(value: boolean | number | string): number | undefined {
+  const text = String(value).trim();
+  const number = text.endsWith('%') ? text.slice(0, -1).trim() : '';
+  return number !== '' && !isNaN(Number(number)) ? Number(number) : undefined;
+}
+
+/**
+ * Converts a scene value into the native value of a data point: booleans into the state of a
+ * two-state function, enum values as listed, and percentages the way HomeKit's sliders are mapped,
+ * into the step of a stepped function such as fan speed or else into the native integer range.
+ * Throws for a value the function cannot take, with what it expects as the message.
+ * Without a function, only strings that read as a boolean or a number are converted.
+ */
+export function encodeSceneValue(fn: DpsFunction | undefined, value: boolean | number | string): boolean | number | string {
+  const on = parseBoolean(value);
+  const percentage = parsePercentage(value);
+
+  switch (fn?.type) {
+  case undefined: {
+    const text = String(value).trim();
+    if (typeof value === 'string' && text !== '' && !isNaN(Number(text))) {
+      return Number(text);
+    }
+    return on ?? value;
+  }
+  case 'boolean':
+    if (on === undefined && typeof value !== 'number') {
+      throw new Error('expected true or false');
+    }
+    return encodeDpsState(fn, on ?? !!value);
+  case 'enum':
+    if (on !== undefined && fn.values?.length === 2) {
+      return encodeDpsState(fn, on);
+    }
+    if (percentage !== undefined && fn.values?.length) {
+      return fromStepPercent(fn, percentage);
+    }
+    if (typeof value === 'string' && (!fn.values || fn.values.includes(value))) {
+      return value;
+    }
+    throw new Error(fn.values ? `expected one of ${fn.values.join(', ')} or a percentage` : 'expected text');
+  case 'integer': {
+    if (percentage !== undefined) {
+      return fn.steps ? fromStepPercent(fn, percentage) : fromPercent(fn, percentage);
+    }
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || isNaN(number)) {
+      throw new Error('expected a number or a percentage');
+    }
+    return number;
+  }
+  default:
+    return value;
+  }
+}
+
+/**
+ * The data point and native value a scene action writes on a device with the given mapping,
+ * undefined when it names a function the device does not map. Throws for a value the function
+ * cannot take, see encodeSceneValue.
+ */
+export function resolveSceneAction(mapping: DpsMapping, action: SceneAction): [string, boolean | number | string] | undefined {
+  const fn = action.function ? mapping[action.function] : undefined;
+  if (action.function && !fn) {
+    return undefined;
+  }
+  const dps = fn?.dps ?? action.dps!;
+  return [String(dps), encodeSceneValue(fn, action.value)];
+}
+
+/**
+ * A scene from the config, exposed as a Switch that runs the scene and turns itself off again.
+ * With `button`, a StatelessProgrammableSwitch is pressed each time the scene has run, so HomeKit
+ * automations can follow on from it. Each device of the scene gets all of its values in one command.
+ */
+export class SceneAccessory {
+  private readonly switchService: Service;
+  private readonly buttonService?: Service;
+  private resetTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly platform: LocalTuyaPlatform,
+    public readonly accessory: PlatformAccessory,
+    public readonly scene: SceneConfig,
+  ) {
+    const { Service, Characteristic } = this.platform;
+
+    this.accessory.getService(Service.AccessoryInformation)!
+      .setCharacteristic(Characteristic.Manufacturer, 'Local Tuya')
+      .setCharacteristic(Characteristic.Model, 'Scene')
+      .setCharacteristic(Characteristic.SerialNumber, scene.name);
+
+    this.switchService = this.accessory.getService(Service.Switch) ?? this.accessory.addService(Service.Switch, scene.name);
+    this.switchService.getCharacteristic(Characteristic.On)
+      .onSet(this.setOn.bind(this))
+      .onGet(() => !!this.resetTimer);
+
+    const button = this.accessory.getService(Service.StatelessProgrammableSwitch);
+    if (scene.button) {
+      this.buttonService = button ?? this.accessory.addService(Service.StatelessProgrammableSwitch, `${scene.name} Button`);
+      const { SINGLE_PRESS } = Characteristic.ProgrammableSwitchEvent;
+      this.buttonService.getCharacteristic(Characteristic.ProgrammableSwitchEvent)
+        .setProps({ validValues: [SINGLE_PRESS] });
+    } else if (button) {
+      // Left over from a config that had the button
+      this.accessory.removeService(button);
+    }
+  }
+
+  async setOn(value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+
+    if (this.resetTimer) {
+      clearTimeout(this.resetTimer);
+    }
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = null;
+      this.switchService.updateCharacteristic(this.platform.Characteristic.On, false);
+    }, MOMENTARY_DELAY);
+
+    await this.run();
+  }
+
+  /**
+   * Writes the scene to its devices, one command per device, all at the same time. Fails with
+   * the communication error HomeKit shows as "No Response" when none of the devices could be set.
+   */
+  public async run() {
+    const { log } = this.platform;
+    const writes = new Map<TuyaAccessory, DpsData>();
+
+    for (const action of this.scene.actions) {
+      const target = this.platform.findAccessory(action.device);
+      if (!target) {
+        log.warn(`Scene ${this.scene.name} names device ${action.device}, which is not configured`);
+        continue;
+      }
+      let write: ReturnType<typeof resolveSceneAction>;
+      try {
+        write = resolveSceneAction(target.dpsMapping, action);
+      } catch (error) {
+        log.warn(`Scene ${this.scene.name} cannot set ${action.function} on ${action.device} to ${JSON.stringify(action.value)}, ${(error as Error).message}`);
+        continue;
+      }
+      if (!write) {
+        log.warn(`Scene ${this.scene.name} sets ${action.function} on ${action.device}, which has no DPS mapped for it`);
+        continue;
+      }
+      const data = writes.get(target) ?? {};
+      data[write[0]] = write[1];
+      writes.set(target, data);
+    }
+
+    const results = await Promise.allSettled([...writes].map(([target, data]) => target.writeDps(data)));
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    if (failed > 0) {
+      log.warn(`Scene ${this.scene.name} could not set ${failed} of ${writes.size} devices`);
+    }
+    if (writes.size > 0 && failed === writes.size) {
+      const { HapStatusError, HAPStatus } = this.platform.api.hap;
+      throw new HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
+    log.info(`Ran scene ${this.scene.name}`);
+    this.buttonService?.updateCharacteristic(
+      this.platform.Characteristic.ProgrammableSwitchEvent,
+      this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS,
+    );
+  }
+
+  destroy() {
+    if (this.resetTimer) {
+      clearTimeout(this.resetTimer);
+      this.resetTimer = null;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import type { PollingConfig } from './config.js';
+
+/**
+ * The clock and timers the scheduler runs on, replaceable with a fake clock
+ */
+export interface Timers {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const SYSTEM_TIMERS: Timers = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Polling intervals, timeouts and retry backoff of one device, in milliseconds
+ */
+export interface PollSettings {
+  // Between fallback polls, state is normally pushed by the device
+  interval: number;
+  // Between polls for `activeTime` after a change from HomeKit, to pick up what follows from it
+  activeInterval: number;
+  activeTime: number;
+  // Between polls once the device has reported no change for `idleTime`
+  idleInterval: number;
+  idleTime: number;
+  // First reconnection attempt after the device goes offline, doubling up to `maxRetryDelay`
+  retryDelay: number;
+  maxRetryDelay: number;
+  // Attempts before waiting `maxRetryDelay` and starting over
+  maxRetries: number;
+  // For the device to answer a status query, to confirm a write and to answer each probed protocol version
+  timeout: number;
+  writeTimeout: number;
+  detectTimeout: number;
+}
+
+export const DEFAULT_POLL_SETTINGS: PollSettings = {
+  interval: 60000,
+  activeInterval: 5000,
+  activeTime: 30000,
+  idleInterval: 300000,
+  idleTime: 600000,
+  retryDelay: 5000,
+  maxRetryDelay: 300000,
+  maxRetries: 3,
+  timeout: 1000,
+  writeTimeout: 5000,
+  detectTimeout: 5000,
+};
+
+// Polls running at once across all devices, unless configured
+export const DEFAULT_MAX_CONCURRENT = 4;
+// Least time between the start of two polls, so devices due together are spread out
+const STAGGER_DELAY = 200;
+
+/**
+ * Combines polling configs, later ones overriding earlier ones, into settings in milliseconds.
+ * The config gives times in seconds.
+ */
+export function resolvePollSettings(...configs: (PollingConfig | undefined)[]): PollSettings {
+  const settings = { ...DEFAULT_POLL_SETTINGS };
+  for (const config of configs) {
+    for (const [name, value] of Object.entries(config ?? {})) {
+      if (!(name in settings) || typeof value !== 'number') {
+        continue;
+      }
+      settings[name as keyof PollSettings] = name === 'maxRetries' ? value : value * 1000;
+    }
+  }
+  return settings;
+}
+
+/**
+ * What the next poll of a device depends on
+ */
+export interface PollActivity {
+  // When HomeKit last changed the device and when the device last reported a different state
+  lastAction: number;
+  lastChange: number;
+}
+
+/**
+ * Time until the next poll of an online device: short right after a change from HomeKit,
+ * long once the device has been idle for a while
+ */
+export function pollDelay(settings: PollSettings, activity: PollActivity, now: number): number {
+  if (now - activity.lastAction < settings.activeTime) {
+    return settings.activeInterval;
+  }
+  if (now - Math.max(activity.lastChange, activity.lastAction) >= settings.idleTime) {
+    return Math.max(settings.interval, settings.idleInterval);
+  }
+  return settings.interval;
+}
+
+/**
+ * Time until the next reconnection attempt of an offline device, doubling with each attempt
+ */
+export function retryDelay(settings: PollSettings, attempt: number): number {
+  return Math.min(settings.retryDelay * Math.pow(2, attempt), settings.maxRetryDelay);
+}
+
+interface Job {
+  poll: () => Promise<void>;
+  timer?: unknown;
+  queued: boolean;
+}
+
+/**
+ * Runs the polls of all devices from one place. Each device has at most one poll pending,
+ * scheduling it again moves it. Polls that come due are queued and started no closer together
+ * than a short stagger, with a limit on how many run at once.
+ */
+export class PollScheduler {
+  private readonly jobs = new Map<string, Job>();
+  private readonly queue: string[] = [];
+  private running = 0;
+  private nextStart = 0;
+  private pumpTimer?: unknown;
+
+  constructor(
+    private readonly maxConcurrent = DEFAULT_MAX_CONCURRENT,
+    public readonly timers: Timers = SYSTEM_TIMERS,
+    private readonly stagger = STAGGER_DELAY,
+  ) {}
+
+  /**
+   * Schedules the poll of the device with the given key to come due after `delay`,
+   * replacing any poll of that device that has not started yet
+   */
+  schedule(key: string, delay: number, poll: () => Promise<void>) {
+    this.cancel(key);
+    const job: Job = { poll, queued: false };
+    this.jobs.set(key, job);
+    job.timer = this.timers.setTimeout(() => {
+      job.timer = undefined;
+      job.queued = true;
+      this.queue.push(key);
+      this.pump();
+    }, Math.max(0, delay));
+  }
+
+  /**
+   * Drops the pending poll of a device, a poll already running is left to finish
+   */
+  cancel(key: string) {
+    const job = this.jobs.get(key);
+    if (!job) {
+      return;
+    }
+    if (job.timer !== undefined) {
+      this.timers.clearTimeout(job.timer);
+    }
+    if (job.queued) {
+      this.queue.splice(this.queue.indexOf(key), 1);
+    }
+    this.jobs.delete(key);
+  }
+
+  /**
+   * Whether a poll of the device is waiting to come due or to start
+   */
+  isScheduled(key: string): boolean {
+    return this.jobs.has(key);
+  }
+
+  /**
+   * Drops every pending poll, on shutdown
+   */
+  stop() {
+    for (const key of [...this.jobs.keys()]) {
+      this.cancel(key);
+    }
+    if (this.pumpTimer !== undefined) {
+      this.timers.clearTimeout(this.pumpTimer);
+      this.pumpTimer = undefined;
+    }
+  }
+
+  private pump() {
+    if (this.pumpTimer !== undefined || this.running >= this.maxConcurrent || this.queue.length === 0) {
+      return;
+    }
+
+    const wait = this.nextStart - this.timers.now();
+    if (wait > 0) {
+      this.pumpTimer = this.timers.setTimeout(() => {
+        this.pumpTimer = undefined;
+        this.pump();
+      }, wait);
+      return;
+    }
+
+    const key = this.queue.shift()!;
+    const job = this.jobs.get(key)!;
+    this.jobs.delete(key);
+    this.running++;
+    this.nextStart = this.timers.now() + this.stagger;
+
+    job.poll().catch(() => undefined).finally(() => {
+      this.running--;
+      this.pump();
+    });
+    this.pump();
+  }
+}
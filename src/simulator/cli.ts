@@ -0,0 +1,109 @@
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+
+import { SIMULATOR_FAULTS, TuyaSimulator } from './tuyaSimulator.js';
+import type { SimulatorFault } from './tuyaSimulator.js';
+
+const USAGE = `Usage: npm run simulate -- --id <device id> --key <local key> [--dps '{"1":true}'] [--host 127.0.0.1] [--latency ms]
+
+Commands, one per line:
+  set {"1":false}          change data points as the remote would and push them
+  fault <kind> [count]     misbehave for the next requests, kind is one of ${SIMULATOR_FAULTS.join(', ')}
+  fault                    behave again
+  init                     push an init-only DPS 33/35 burst
+  off / on                 stop / start listening, clients get their connection refused while off
+  announce                 send a discovery broadcast to this machine, as a device does when it wakes up
+  status                   show the data points and connected clients
+  quit`;
+
+const { values } = parseArgs({
+  options: {
+    id: { type: 'string' },
+    key: { type: 'string' },
+    dps: { type: 'string', default: '{"1":true}' },
+    host: { type: 'string' },
+    latency: { type: 'string' },
+    help: { type: 'boolean' },
+  },
+});
+
+if (values.help || !values.id || values.key?.length !== 16) {
+  console.log(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+const simulator = new TuyaSimulator({
+  id: values.id,
+  key: values.key,
+  dps: JSON.parse(values.dps!),
+  host: values.host,
+  latency: values.latency ? Number(values.latency) : undefined,
+});
+
+simulator.on('request', (command: number, payload: unknown) => {
+  console.log(`<- command ${command}`, payload ?? '');
+});
+simulator.on('change', (dps: Record<string, unknown>) => {
+  console.log('-> changed', dps);
+});
+simulator.on('clientError', (error: Error) => {
+  console.log('!! dropped client:', error.message);
+});
+
+/**
+ * Runs one command typed on the console, returning false to quit
+ */
+async function run(line: string): Promise<boolean> {
+  const [command, ...args] = line.trim().split(/\s+/);
+  switch (command) {
+  case 'set':
+    simulator.update(JSON.parse(args.join(' ')));
+    break;
+  case 'fault':
+    if (args[0] && !SIMULATOR_FAULTS.includes(args[0] as SimulatorFault)) {
+      console.log(`Unknown fault "${args[0]}", expected one of ${SIMULATOR_FAULTS.join(', ')}`);
+      break;
+    }
+    simulator.setFault(args[0] as SimulatorFault | undefined, args[1] ? Number(args[1]) : undefined);
+    break;
+  case 'init':
+    simulator.pushInitBurst();
+    break;
+  case 'off':
+    await simulator.stop();
+    break;
+  case 'on':
+    await simulator.start();
+    break;
+  case 'announce':
+    await simulator.announce();
+    break;
+  case 'status':
+    console.log(simulator.dps, `${simulator.connections} client(s) connected`);
+    break;
+  case 'quit':
+    return false;
+  case '':
+  case undefined:
+    break;
+  default:
+    console.log(USAGE);
+  }
+  return true;
+}
+
+await simulator.start();
+console.log(`Simulating device ${values.id} on ${simulator.host}:${simulator.port}`);
+
+const console$ = createInterface({ input: process.stdin });
+for await (const line of console$) {
+  try {
+    if (!await run(line)) {
+      break;
+    }
+  } catch (error) {
+    console.log((error as Error).message);
+  }
+}
+console$.close();
+await simulator.stop();
@@ -0,0 +1,126 @@
+import { createCipheriv, createDecipheriv, createHash } from 'crypto';
+
+/**
+ * Command bytes of the Tuya LAN protocol handled by the simulator
+ */
+export const Command = {
+  CONTROL: 7,
+  STATUS: 8,
+  HEART_BEAT: 9,
+  DP_QUERY: 10,
+  DP_REFRESH: 18,
+  BROADCAST: 19,
+} as const;
+
+/**
+ * One 55AA frame: a sequence number, a command byte and the payload between the header and the CRC
+ */
+export interface Frame {
+  sequence: number;
+  command: number;
+  payload: Buffer;
+}
+
+const PREFIX = 0x000055AA;
+const SUFFIX = 0x0000AA55;
+const HEADER_SIZE = 16;
+// CRC and suffix after the payload
+const TRAILER_SIZE = 8;
+// Protocol 3.3 prefixes encrypted payloads, except query replies, with the version and 12 zero bytes
+const VERSION_HEADER = Buffer.concat([Buffer.from('3.3'), Buffer.alloc(12)]);
+
+// Every device encrypts its discovery broadcasts with the same well-known key
+const BROADCAST_KEY = createHash('md5').update('yGAdlopoPVldABfn', 'utf8').digest();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xEDB88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+export function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Encodes a frame as a device sends it, with a return code of 0 ahead of the payload
+ */
+export function encodeFrame(frame: Frame): Buffer {
+  const payload = Buffer.concat([Buffer.alloc(4), frame.payload]);
+  const buffer = Buffer.alloc(HEADER_SIZE + payload.length + TRAILER_SIZE);
+  buffer.writeUInt32BE(PREFIX, 0);
+  buffer.writeUInt32BE(frame.sequence, 4);
+  buffer.writeUInt32BE(frame.command, 8);
+  buffer.writeUInt32BE(payload.length + TRAILER_SIZE, 12);
+  payload.copy(buffer, HEADER_SIZE);
+  buffer.writeUInt32BE(crc32(buffer.subarray(0, HEADER_SIZE + payload.length)), HEADER_SIZE + payload.length);
+  buffer.writeUInt32BE(SUFFIX, buffer.length - 4);
+  return buffer;
+}
+
+/**
+ * Splits the bytes received from a client into frames. Returns the frames and whatever is left
+ * of an incomplete frame at the end; bytes that cannot start a frame throw.
+ */
+export function decodeFrames(data: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = [];
+  let offset = 0;
+
+  while (data.length - offset >= HEADER_SIZE + TRAILER_SIZE) {
+    if (data.readUInt32BE(offset) !== PREFIX) {
+      throw new Error(`Unexpected bytes ${data.subarray(offset, offset + 4).toString('hex')} where a frame should start`);
+    }
+    const length = data.readUInt32BE(offset + 12);
+    const end = offset + HEADER_SIZE + length;
+    if (end > data.length) {
+      break;
+    }
+    if (crc32(data.subarray(offset, end - TRAILER_SIZE)) !== data.readUInt32BE(end - TRAILER_SIZE)) {
+      throw new Error('Frame CRC mismatch');
+    }
+    frames.push({
+      sequence: data.readUInt32BE(offset + 4),
+      command: data.readUInt32BE(offset + 8),
+      payload: data.subarray(offset + HEADER_SIZE, end - TRAILER_SIZE),
+    });
+    offset = end;
+  }
+
+  return { frames, rest: data.subarray(offset) };
+}
+
+/**
+ * Encrypts a JSON payload with the local key, with the 3.3 version header unless `bare`
+ */
+export function encryptPayload(key: string, data: unknown, bare = false): Buffer {
+  const cipher = createCipheriv('aes-128-ecb', Buffer.from(key, 'utf8'), null);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  return bare ? encrypted : Buffer.concat([VERSION_HEADER, encrypted]);
+}
+
+/**
+ * Decrypts a client payload with the local key. Empty payloads, such as heartbeats, are undefined.
+ */
+export function decryptPayload(key: string, payload: Buffer): unknown {
+  if (payload.length === 0) {
+    return undefined;
+  }
+  const encrypted = payload.subarray(0, 3).toString() === '3.3' ? payload.subarray(VERSION_HEADER.length) : payload;
+  const decipher = createDecipheriv('aes-128-ecb', Buffer.from(key, 'utf8'), null);
+  return JSON.parse(Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8'));
+}
+
+/**
+ * Encodes the discovery broadcast a protocol 3.3 device sends every few seconds on UDP port 6667
+ */
+export function encodeBroadcast(data: Record<string, unknown>): Buffer {
+  const cipher = createCipheriv('aes-128-ecb', BROADCAST_KEY, null);
+  const payload = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+  return encodeFrame({ sequence: 0, command: Command.BROADCAST, payload });
+}
@@ -0,0 +1,258 @@
+import dgram from 'dgram';
+import { EventEmitter } from 'events';
+import net from 'net';
+
+import { Command, decodeFrames, decryptPayload, encodeBroadcast, encodeFrame, encryptPayload } from './protocol.js';
+import type { Frame } from './protocol.js';
+
+/**
+ * Misbehaviour the simulated device can be told to show:
+ * - `timeout`: requests and heartbeats go unanswered while the connection stays open
+ * - `reset`: the connection is reset as soon as a request arrives
+ * - `badCrc`: requests are answered with a frame whose CRC does not match
+ * - `badPayload`: requests are answered with a frame that decrypts to something other than JSON
+ * - `initOnly`: queries are answered with only the DPS 33/35 a device reports while powering up
+ */
+export type SimulatorFault = 'timeout' | 'reset' | 'badCrc' | 'badPayload' | 'initOnly';
+
+export const SIMULATOR_FAULTS: SimulatorFault[] = ['timeout', 'reset', 'badCrc', 'badPayload', 'initOnly'];
+
+export interface SimulatorOptions {
+  id: string;
+  key: string;
+  // Data points the device starts with
+  dps: Record<string, unknown>;
+  // Address to listen on, each device on the loopback network needs its own, such as 127.0.0.2
+  host?: string;
+  port?: number;
+  // Milliseconds before each reply
+  latency?: number;
+}
+
+// Port Tuya devices accept local connections on
+const DEVICE_PORT = 6668;
+// Port protocol 3.3 devices send their discovery broadcasts to
+const BROADCAST_PORT = 6667;
+// Values a device reports on the init data points while powering up
+const INIT_DPS = { 33: 0, 35: 0 };
+
+/**
+ * A simulated Tuya device speaking protocol 3.3 on a local TCP port, for trying out the plugin
+ * without real hardware. It answers queries and heartbeats, applies writes and pushes the changed
+ * data points to every connected client, and can be told to misbehave, see SimulatorFault.
+ *
+ * Emits `request` with the command byte and decrypted payload of each request, `change` with the
+ * data points changed by a write or by `update`, and `clientError` when a client sends something
+ * that is not a valid frame.
+ */
+export class TuyaSimulator extends EventEmitter {
+  public readonly dps: Record<string, unknown>;
+  private readonly server: net.Server;
+  private readonly sockets: Set<net.Socket> = new Set();
+  private fault?: SimulatorFault;
+  private faultCount = 0;
+  private pushSequence = 0;
+
+  constructor(private readonly options: SimulatorOptions) {
+    super();
+    this.dps = { ...options.dps };
+    this.server = net.createServer(this.handleConnection.bind(this));
+  }
+
+  get host(): string {
+    return this.options.host ?? '127.0.0.1';
+  }
+
+  get port(): number {
+    return this.options.port ?? DEVICE_PORT;
+  }
+
+  /**
+   * Number of clients connected right now
+   */
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * Starts accepting connections. While stopped, connections are refused like those to a device that is off.
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Closes every connection and stops listening
+   */
+  stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Misbehaves in the given way for the next `count` requests, or until cleared with no fault
+   */
+  setFault(fault?: SimulatorFault, count = Infinity) {
+    this.fault = fault;
+    this.faultCount = fault ? count : 0;
+  }
+
+  /**
+   * Changes data points as the wall remote or the Tuya app would, pushing them to connected clients
+   */
+  update(dps: Record<string, unknown>) {
+    Object.assign(this.dps, dps);
+    this.emit('change', dps);
+    this.broadcast(dps);
+  }
+
+  /**
+   * Pushes only the init data points, as a device does in the first moments after power comes back
+   */
+  pushInitBurst() {
+    this.broadcast(INIT_DPS);
+  }
+
+  /**
+   * Sends the discovery broadcast a device sends every few seconds while awake, to the given
+   * address rather than the whole network, which is where LAN discovery listens on this machine
+   */
+  announce(address = '127.0.0.1'): Promise<void> {
+    const packet = encodeBroadcast({
+      ip: this.host,
+      gwId: this.options.id,
+      active: 2,
+      ability: 0,
+      mode: 0,
+      encrypt: true,
+      productKey: 'simulator',
+      version: '3.3',
+    });
+    const socket = dgram.createSocket('udp4');
+    return new Promise((resolve, reject) => {
+      socket.send(packet, BROADCAST_PORT, address, (error) => {
+        socket.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private broadcast(dps: Record<string, unknown>) {
+    const frame = this.statusFrame(dps);
+    for (const socket of this.sockets) {
+      socket.write(frame);
+    }
+  }
+
+  private statusFrame(dps: Record<string, unknown>, sequence = ++this.pushSequence): Buffer {
+    const payload = encryptPayload(this.options.key, { devId: this.options.id, dps, t: Math.round(Date.now() / 1000) });
+    return encodeFrame({ sequence, command: Command.STATUS, payload });
+  }
+
+  private handleConnection(socket: net.Socket) {
+    this.sockets.add(socket);
+    let buffered: Buffer = Buffer.alloc(0);
+
+    socket.on('data', (data) => {
+      try {
+        const { frames, rest } = decodeFrames(Buffer.concat([buffered, data]));
+        buffered = rest;
+        for (const frame of frames) {
+          this.handleFrame(socket, frame);
+        }
+      } catch (error) {
+        // A real device drops clients that send garbage
+        this.emit('clientError', error);
+        socket.destroy();
+      }
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+
+  /**
+   * The fault to apply to this request, counting it against the remaining number
+   */
+  private takeFault(command: number): SimulatorFault | undefined {
+    if (!this.fault || this.faultCount <= 0) {
+      return undefined;
+    }
+    // Heartbeats only notice a device that has stopped answering or drops the connection
+    if (command === Command.HEART_BEAT && this.fault !== 'timeout' && this.fault !== 'reset') {
+      return undefined;
+    }
+    const fault = this.fault;
+    if (--this.faultCount <= 0) {
+      this.fault = undefined;
+    }
+    return fault;
+  }
+
+  private handleFrame(socket: net.Socket, frame: Frame) {
+    const request = decryptPayload(this.options.key, frame.payload) as { dps?: Record<string, unknown> } | undefined;
+    this.emit('request', frame.command, request);
+
+    const fault = this.takeFault(frame.command);
+    if (fault === 'timeout') {
+      return;
+    }
+    if (fault === 'reset') {
+      socket.resetAndDestroy();
+      return;
+    }
+
+    const replies = this.reply(frame, request, fault);
+    setTimeout(() => {
+      if (!socket.destroyed) {
+        for (const reply of replies) {
+          socket.write(reply);
+        }
+      }
+    }, this.options.latency ?? 0);
+  }
+
+  private reply(frame: Frame, request: { dps?: Record<string, unknown> } | undefined, fault?: SimulatorFault): Buffer[] {
+    const { sequence, command } = frame;
+
+    if (fault === 'badCrc') {
+      const reply = this.statusFrame(this.dps, sequence);
+      reply.writeUInt32BE(~reply.readUInt32BE(reply.length - 8) >>> 0, reply.length - 8);
+      return [reply];
+    }
+    if (fault === 'badPayload') {
+      return [encodeFrame({ sequence, command, payload: Buffer.from('json obj data unvalid, not encrypted') })];
+    }
+
+    switch (command) {
+    case Command.HEART_BEAT:
+    case Command.DP_REFRESH:
+      return [encodeFrame({ sequence, command, payload: Buffer.alloc(0) })];
+    case Command.DP_QUERY: {
+      const dps = fault === 'initOnly' ? INIT_DPS : this.dps;
+      const payload = encryptPayload(this.options.key, { devId: this.options.id, dps }, true);
+      return [encodeFrame({ sequence, command, payload })];
+    }
+    case Command.CONTROL: {
+      const changed = request?.dps ?? {};
+      Object.assign(this.dps, changed);
+      this.emit('change', changed);
+      // The write is acknowledged, then the new state follows as a status report
+      return [encodeFrame({ sequence, command, payload: Buffer.alloc(0) }), this.statusFrame(changed, sequence)];
+    }
+    default:
+      return [];
+    }
+  }
+}
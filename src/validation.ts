@@ -0,0 +1,370 @@
+import { isIPv4 } from 'net';
+
+import { DEBUG_LEVELS, POWER_ON_STATES, PROTOCOL_VERSIONS } from './config.js';
+import type { BridgeConfig, DeviceConfig, PlatformPollingConfig, SceneAction, SceneConfig, SubDeviceConfig } from './config.js';
+import { DEFAULT_DEVICE_TYPE, DEVICE_TYPES, GATEWAY_DEVICE_TYPE } from './deviceTypes.js';
+import { DPS_PROFILES, isRemoval, resolveDpsMapping } from './dps.js';
+import type { DpsMapping, DpsOverrides } from './dps.js';
+import { encodeSceneValue } from './scene.js';
+import { DEFAULT_POLL_SETTINGS } from './scheduler.js';
+
+const KEY_LENGTH = 16;
+const MAX_GANGS = 6;
+const DPS_VALUE_TYPES = ['boolean', 'integer', 'enum', 'color'];
+const MQTT_URL = /^(mqtts?|wss?|tcp|ssl):\/\/\S+$/;
+// Functions a DPS override may name, taken from the built-in profiles and device types
+const DPS_FUNCTIONS = new Set([
+  ...Object.values(DPS_PROFILES).flatMap((profile) => Object.keys(profile)),
+  ...Object.values(DEVICE_TYPES).flatMap((type) => type.functions),
+]);
+
+/**
+ * Result of validating a list of device entries: the usable entries and one message per problem
+ */
+export interface DeviceValidation {
+  devices: DeviceConfig[];
+  errors: string[];
+}
+
+/**
+ * Result of validating the scenes of the platform config: the usable scenes and one message per problem
+ */
+export interface SceneValidation {
+  scenes: SceneConfig[];
+  errors: string[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Checks polling settings, from a device entry or the platform config. Times are seconds above 0,
+ * counts whole numbers from 1.
+ */
+export function pollingProblems(polling: unknown, platform = false): string[] {
+  if (polling === undefined) {
+    return [];
+  }
+  if (!polling || typeof polling !== 'object') {
+    return ['has polling settings that are not an object'];
+  }
+
+  const problems: string[] = [];
+  const counts = platform ? ['maxRetries', 'maxConcurrent'] : ['maxRetries'];
+  for (const [name, value] of Object.entries(polling as PlatformPollingConfig)) {
+    if (counts.includes(name)) {
+      if (!Number.isInteger(value) || value < 1) {
+        problems.push(`has polling ${name} ${value}, expected a whole number from 1`);
+      }
+    } else if (!(name in DEFAULT_POLL_SETTINGS)) {
+      problems.push(`has unknown polling setting "${name}"`);
+    } else if (typeof value !== 'number' || !(value > 0)) {
+      problems.push(`has polling ${name} ${value}, expected a number of seconds above 0`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Checks the bridge settings of the platform config. The HTTP API without a port and the MQTT
+ * bridge without a broker URL are simply off.
+ */
+export function bridgeProblems(bridge: unknown): string[] {
+  if (bridge === undefined) {
+    return [];
+  }
+  if (!bridge || typeof bridge !== 'object') {
+    return ['has bridge settings that are not an object'];
+  }
+
+  const problems: string[] = [];
+  const { http, mqtt } = bridge as BridgeConfig;
+  if (http !== undefined) {
+    if (!http || typeof http !== 'object') {
+      problems.push('has HTTP API settings that are not an object');
+    } else {
+      if (http.port !== undefined && (!Number.isInteger(http.port) || http.port < 1 || http.port > 65535)) {
+        problems.push(`has HTTP API port ${http.port}, expected a whole number from 1 to 65535`);
+      }
+      if (http.host !== undefined && !isNonEmptyString(http.host)) {
+        problems.push(`has HTTP API host "${http.host}", expected an address to listen on`);
+      }
+      if (http.token !== undefined && typeof http.token !== 'string') {
+        problems.push('has an HTTP API token that is not text');
+      }
+    }
+  }
+  if (mqtt !== undefined) {
+    if (!mqtt || typeof mqtt !== 'object') {
+      problems.push('has MQTT settings that are not an object');
+    } else {
+      if (mqtt.url !== undefined && !MQTT_URL.test(String(mqtt.url))) {
+        problems.push(`has MQTT broker URL "${mqtt.url}", expected one such as mqtt://localhost:1883`);
+      }
+      if (mqtt.topicPrefix !== undefined && (typeof mqtt.topicPrefix !== 'string' || /[+#]/.test(mqtt.topicPrefix))) {
+        problems.push(`has MQTT topic prefix "${mqtt.topicPrefix}", expected text without + or #`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * The DPS mapping an accessory gets from its profile, or the default one of its type, with the given overrides
+ */
+function entryMapping(entry: Partial<DeviceConfig>, overrides?: DpsOverrides): DpsMapping {
+  return resolveDpsMapping(entry.profile, overrides, DEVICE_TYPES[entry.type ?? DEFAULT_DEVICE_TYPE]?.profile);
+}
+
+/**
+ * Checks the accessory settings shared by devices and sub-devices
+ */
+function accessoryProblems(entry: Partial<DeviceConfig>): string[] {
+  const problems: string[] = [];
+
+  if (!isNonEmptyString(entry.name)) {
+    problems.push('has no name');
+  }
+  if (entry.type !== undefined && !(entry.type in DEVICE_TYPES)) {
+    problems.push(`has unknown type "${entry.type}" (expected one of ${Object.keys(DEVICE_TYPES).join(', ')})`);
+  }
+  if (entry.profile !== undefined && !(entry.profile in DPS_PROFILES)) {
+    problems.push(`has unknown DPS profile "${entry.profile}" (expected one of ${Object.keys(DPS_PROFILES).join(', ')})`);
+  }
+  if (entry.gangs !== undefined && (!Number.isInteger(entry.gangs) || entry.gangs < 1 || entry.gangs > MAX_GANGS)) {
+    problems.push(`has ${entry.gangs} gangs, expected a whole number from 1 to ${MAX_GANGS}`);
+  }
+  if (entry.travelTime !== undefined && (typeof entry.travelTime !== 'number' || !(entry.travelTime > 0))) {
+    problems.push(`has a travel time of ${entry.travelTime}, expected a number of seconds above 0`);
+  }
+  if (entry.powerOnState !== undefined && !POWER_ON_STATES.includes(entry.powerOnState)) {
+    problems.push(`has unknown power-on state "${entry.powerOnState}" (expected one of ${POWER_ON_STATES.join(', ')})`);
+  }
+  if (entry.autoOff !== undefined && (typeof entry.autoOff !== 'number' || !(entry.autoOff > 0))) {
+    problems.push(`has an auto-off time of ${entry.autoOff}, expected a number of minutes above 0`);
+  }
+  problems.push(...pollingProblems(entry.polling));
+  if (entry.debug !== undefined && !DEBUG_LEVELS.includes(entry.debug)) {
+    problems.push(`has unknown debug level "${entry.debug}" (expected one of ${DEBUG_LEVELS.join(', ')})`);
+  }
+
+  if (entry.dps !== undefined) {
+    if (!entry.dps || typeof entry.dps !== 'object') {
+      problems.push('has a DPS mapping that is not an object');
+    } else {
+      // The functions the overrides change, as the profile of the entry maps them
+      const profile = entryMapping(entry);
+      for (const [name, fn] of Object.entries(entry.dps)) {
+        const merged = { ...profile[name as keyof DpsMapping], ...fn };
+        if (!DPS_FUNCTIONS.has(name as keyof DpsMapping)) {
+          problems.push(`maps unknown function "${name}"`);
+        } else if (fn !== null && typeof fn !== 'object') {
+          problems.push(`maps ${name} to ${JSON.stringify(fn)}, expected an object, or null to leave it unmapped`);
+        } else if (fn?.dps !== undefined && (!Number.isInteger(fn.dps) || fn.dps < 0)) {
+          problems.push(`maps ${name} to DPS "${fn.dps}", expected a number from 1, or 0 to leave it unmapped`);
+        } else if (fn?.type !== undefined && !DPS_VALUE_TYPES.includes(fn.type)) {
+          problems.push(`maps ${name} with unknown value type "${fn.type}"`);
+        } else if (!isRemoval(fn) && (merged.dps === undefined || merged.type === undefined)) {
+          // Nothing to inherit the rest from, resolveDpsMapping would leave the function out
+          problems.push(`maps ${name}, which its DPS profile does not, without both a DPS and a type`);
+        } else if (merged.type === 'integer' && (fn?.min !== undefined || fn?.max !== undefined)
+          && !((merged.min ?? 0) < (merged.max ?? 100))) {
+          problems.push(`maps ${name} to the range ${merged.min ?? 0}-${merged.max ?? 100}, expected a min below the max`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a device entry, returning a description of each problem found
+ */
+export function deviceProblems(entry: Partial<DeviceConfig>): string[] {
+  const isGateway = entry.type === GATEWAY_DEVICE_TYPE;
+  const problems = accessoryProblems(isGateway ? { ...entry, type: undefined } : entry);
+
+  if (!isNonEmptyString(entry.id)) {
+    problems.push('has no device ID');
+  }
+  if (typeof entry.key !== 'string' || entry.key.length !== KEY_LENGTH) {
+    const length = typeof entry.key === 'string' ? entry.key.length : 0;
+    problems.push(`has a local key of ${length} characters, expected ${KEY_LENGTH}`);
+  }
+  if (entry.ip !== undefined && entry.ip !== '' && !isIPv4(String(entry.ip))) {
+    problems.push(`has an invalid IP address "${entry.ip}"`);
+  }
+  if (entry.protocolVersion !== undefined && entry.protocolVersion !== 'auto' && !PROTOCOL_VERSIONS.includes(entry.protocolVersion)) {
+    problems.push(`has unknown protocol version "${entry.protocolVersion}" (expected one of ${PROTOCOL_VERSIONS.join(', ')} or auto)`);
+  }
+  if (entry.subDevices !== undefined && !isGateway) {
+    problems.push(`lists sub-devices but is not of type "${GATEWAY_DEVICE_TYPE}"`);
+  }
+
+  return problems;
+}
+
+/**
+ * Validates the sub-devices of a gateway entry, dropping the invalid ones and duplicate node ids
+ */
+function validateSubDevices(gateway: DeviceConfig, errors: string[]): SubDeviceConfig[] {
+  const valid: SubDeviceConfig[] = [];
+
+  for (const [index, subDevice] of (Array.isArray(gateway.subDevices) ? gateway.subDevices : []).entries()) {
+    const label = `Sub-device ${isNonEmptyString(subDevice?.name) ? subDevice.name : `#${index + 1}`} of gateway ${gateway.name}`;
+    if (!subDevice || typeof subDevice !== 'object') {
+      errors.push(`${label} is not an object, skipping`);
+      continue;
+    }
+
+    const problems = accessoryProblems(subDevice);
+    const duplicate = valid.find((other) => other.cid === subDevice.cid);
+    if (!isNonEmptyString(subDevice.cid)) {
+      problems.push('has no node ID (cid)');
+    } else if (duplicate) {
+      problems.push(`has the same node ID ${subDevice.cid} as ${duplicate.name}`);
+    }
+
+    if (problems.length > 0) {
+      errors.push(`${label} ${problems.join(', ')}, skipping`);
+    } else {
+      valid.push(subDevice);
+    }
+  }
+
+  return valid;
+}
+
+/**
+ * Validates device entries from one source, such as the platform config or devices.json,
+ * skipping invalid entries and entries whose id is already taken by an earlier entry
+ * or by one of `takenIds`.
+ */
+export function validateDevices(entries: unknown, source: string, takenIds: Set<string> = new Set()): DeviceValidation {
+  const result: DeviceValidation = { devices: [], errors: [] };
+
+  if (!Array.isArray(entries)) {
+    result.errors.push(`Devices in ${source} must be a list`);
+    return result;
+  }
+
+  for (const [index, entry] of entries.entries()) {
+    const device = entry as Partial<DeviceConfig>;
+    const label = `Device ${isNonEmptyString(device?.name) ? device.name : `#${index + 1}`} in ${source}`;
+
+    const problems = device && typeof device === 'object' ? deviceProblems(device) : ['is not an object'];
+    if (problems.length === 0 && takenIds.has(device.id!)) {
+      problems.push(`has the same device ID ${device.id} as another device`);
+    }
+    if (problems.length > 0) {
+      result.errors.push(`${label} ${problems.join(', ')}, skipping`);
+      continue;
+    }
+
+    const valid = { ...device } as DeviceConfig;
+    if (valid.type === GATEWAY_DEVICE_TYPE) {
+      valid.subDevices = validateSubDevices(valid, result.errors);
+    }
+    takenIds.add(valid.id);
+    result.devices.push(valid);
+  }
+
+  return result;
+}
+
+/**
+ * The DPS mapping of the device or sub-device a scene action names, by name, node id or device id
+ */
+function findMapping(devices: DeviceConfig[], reference: string): DpsMapping | undefined {
+  const accessories = devices.flatMap<Partial<DeviceConfig>>((device) =>
+    device.type === GATEWAY_DEVICE_TYPE ? device.subDevices ?? [] : [device]);
+  const found = accessories.find((accessory) => accessory.name === reference)
+    ?? accessories.find((accessory) => accessory.cid === reference)
+    ?? accessories.find((accessory) => accessory.id === reference);
+  return found ? entryMapping(found, found.dps) : undefined;
+}
+
+/**
+ * Checks one action of a scene. The value is checked against the function of the devices given,
+ * others are only looked up when the scene runs, since they may come and go with devices.json.
+ */
+function actionProblems(action: Partial<SceneAction>, index: number, devices: DeviceConfig[]): string[] {
+  const label = `action ${index + 1}`;
+  if (!action || typeof action !== 'object') {
+    return [`has ${label} that is not an object`];
+  }
+
+  const problems: string[] = [];
+  if (!isNonEmptyString(action.device)) {
+    problems.push(`has ${label} without a device`);
+  }
+  if (action.function !== undefined) {
+    if (!DPS_FUNCTIONS.has(action.function)) {
+      problems.push(`has ${label} with unknown function "${action.function}"`);
+    }
+  } else if (action.dps === undefined) {
+    problems.push(`has ${label} without a function or DPS`);
+  } else if (!Number.isInteger(action.dps) || action.dps < 1) {
+    problems.push(`has ${label} with DPS "${action.dps}", expected a number from 1`);
+  }
+  if (!['boolean', 'number', 'string'].includes(typeof action.value)) {
+    problems.push(`has ${label} without a value`);
+  }
+
+  const fn = problems.length === 0 && action.function ? findMapping(devices, action.device!)?.[action.function] : undefined;
+  if (fn) {
+    try {
+      encodeSceneValue(fn, action.value!);
+    } catch (error) {
+      problems.push(`has ${label} setting ${action.function} of ${action.device} to ${JSON.stringify(action.value)}, ${(error as Error).message}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validates the scenes of the platform config, skipping invalid ones and repeated names,
+ * and checking the values of actions on the given devices
+ */
+export function validateScenes(entries: unknown, devices: DeviceConfig[] = []): SceneValidation {
+  const result: SceneValidation = { scenes: [], errors: [] };
+
+  if (entries === undefined) {
+    return result;
+  }
+  if (!Array.isArray(entries)) {
+    result.errors.push('Scenes in the plugin config must be a list');
+    return result;
+  }
+
+  for (const [index, entry] of entries.entries()) {
+    const scene = entry as Partial<SceneConfig>;
+    const label = `Scene ${isNonEmptyString(scene?.name) ? scene.name : `#${index + 1}`}`;
+    if (!scene || typeof scene !== 'object') {
+      result.errors.push(`${label} is not an object, skipping`);
+      continue;
+    }
+
+    const problems: string[] = [];
+    if (!isNonEmptyString(scene.name)) {
+      problems.push('has no name');
+    } else if (result.scenes.some((other) => other.name === scene.name)) {
+      problems.push('has the same name as another scene');
+    }
+    if (!Array.isArray(scene.actions) || scene.actions.length === 0) {
+      problems.push('has no actions');
+    } else {
+      problems.push(...scene.actions.flatMap((action, actionIndex) => actionProblems(action, actionIndex, devices)));
+    }
+
+    if (problems.length > 0) {
+      result.errors.push(`${label} ${problems.join(', ')}, skipping`);
+    } else {
+      result.scenes.push(scene as SceneConfig);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,184 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import type { AddressInfo, Server } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Aedes } from 'aedes';
+import { connectAsync } from 'mqtt';
+import type { MqttClient } from 'mqtt';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BridgeHttpApi } from '../src/bridge/httpApi.js';
+import { TuyaSimulator } from '../src/simulator/tuyaSimulator.js';
+import { startHomebridge } from './helpers/homebridge.js';
+import type { TestHomebridge } from './helpers/homebridge.js';
+
+const KEY = '0123456789abcdef';
+const TOKEN = 'secret';
+
+// Simulated devices of these tests listen on their own loopback addresses, see simulator.test.ts
+let nextHost = 10;
+
+let simulator: TuyaSimulator;
+let homebridge: TestHomebridge | undefined;
+let plug: { name: string; id: string; key: string; ip: string; type: string };
+
+beforeEach(async () => {
+  const host = `127.0.2.${nextHost}`;
+  plug = { name: 'Plug', id: `plug${nextHost++}`, key: KEY, ip: host, type: 'switch' };
+  simulator = new TuyaSimulator({ id: plug.id, key: KEY, dps: { '1': true }, host });
+  await simulator.start();
+});
+
+afterEach(async () => {
+  homebridge?.stop();
+  homebridge = undefined;
+  await simulator.stop();
+});
+
+describe('MQTT bridge', () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let client: MqttClient | undefined;
+  // Last message received on each topic
+  let messages: Map<string, string>;
+
+  beforeEach(async () => {
+    broker = await Aedes.createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await client?.endAsync();
+    client = undefined;
+    await new Promise<void>((resolve) => broker.close(resolve));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function subscribe(...topics: string[]) {
+    messages = new Map();
+    client = await connectAsync(url);
+    client.on('message', (topic, payload) => messages.set(topic, payload.toString()));
+    await client.subscribeAsync(topics);
+    return client;
+  }
+
+  function state(id: string) {
+    const payload = messages.get(`localtuya/${id}/state`);
+    return payload ? JSON.parse(payload) : undefined;
+  }
+
+  it('publishes the state of each device and writes what is published to its set topics', async () => {
+    homebridge = startHomebridge({ devices: [plug], bridge: { mqtt: { url } } });
+    const subscriber = await subscribe('localtuya/#');
+
+    await vi.waitFor(() => expect(messages.get('localtuya/bridge/status')).toBe('online'));
+    await vi.waitFor(() => expect(state(plug.id)).toMatchObject({ name: 'Plug', online: true, dps: { '1': true } }));
+
+    // A change from the device
+    simulator.update({ '1': false });
+    await vi.waitFor(() => expect(state(plug.id)).toMatchObject({ dps: { '1': false }, values: { switch1: false } }));
+
+    // A JSON object of values, then a single value on its own topic
+    await subscriber.publishAsync(`localtuya/${plug.id}/set`, JSON.stringify({ switch1: true }));
+    await vi.waitFor(() => expect(simulator.dps['1']).toBe(true));
+    await subscriber.publishAsync(`localtuya/${plug.id}/1/set`, 'false');
+    await vi.waitFor(() => expect(simulator.dps['1']).toBe(false));
+    await vi.waitFor(() => expect(state(plug.id)).toMatchObject({ dps: { '1': false } }));
+  });
+
+  it('clears the retained state of a device that is removed', async () => {
+    const storagePath = mkdtempSync(path.join(tmpdir(), 'localtuya-'));
+    const devicesFile = path.join(storagePath, 'devices.json');
+    writeFileSync(devicesFile, JSON.stringify([plug]));
+    homebridge = startHomebridge({ bridge: { mqtt: { url } } }, storagePath);
+
+    await subscribe(`localtuya/${plug.id}/state`);
+    await vi.waitFor(() => expect(state(plug.id)).toMatchObject({ online: true }));
+
+    // devices.json is checked every 2 seconds
+    writeFileSync(devicesFile, '[]');
+    await vi.waitFor(() => expect(messages.get(`localtuya/${plug.id}/state`)).toBe(''), { timeout: 6000 });
+
+    // A new subscriber gets no state for the device
+    await client!.endAsync();
+    await subscribe(`localtuya/${plug.id}/state`);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(messages.size).toBe(0);
+  }, 10000);
+});
+
+describe('HTTP API', () => {
+  let api: BridgeHttpApi;
+
+  beforeEach(async () => {
+    homebridge = startHomebridge({ devices: [plug] });
+    await vi.waitFor(() => expect(homebridge!.device('Plug').isConnected).toBe(true));
+    // Port 0 turns the API off in the platform config, so it is started here on a free port
+    api = new BridgeHttpApi(homebridge.platform, { port: 0, token: TOKEN });
+    await api.start();
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  function request(pathname: string, init: RequestInit = {}, token: string | null = TOKEN) {
+    return fetch(`http://127.0.0.1:${api.port}${pathname}`, {
+      ...init,
+      headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}), ...init.headers },
+    });
+  }
+
+  it('lists, reads and writes devices', async () => {
+    const devices = await request('/devices');
+    expect(devices.status).toBe(200);
+    expect(await devices.json()).toEqual([{ id: plug.id, name: 'Plug', type: 'switch', online: true }]);
+
+    expect(await (await request(`/devices/${plug.id}/dps`)).json()).toEqual({ '1': true });
+
+    const written = await request('/devices/Plug/dps', { method: 'PUT', body: JSON.stringify({ switch1: false }) });
+    expect(written.status).toBe(200);
+    expect(await written.json()).toMatchObject({ dps: { '1': false } });
+    expect(simulator.dps['1']).toBe(false);
+  });
+
+  it('requires the bearer token', async () => {
+    expect((await request('/devices', {}, null)).status).toBe(401);
+    const wrong = await request('/devices', {}, 'wrong');
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toEqual({ error: 'Missing or wrong bearer token' });
+  });
+
+  it('answers 404 for unknown resources and devices', async () => {
+    expect((await request('/lights')).status).toBe(404);
+    expect((await request(`/devices/${plug.id}/schema`)).status).toBe(404);
+    const unknown = await request('/devices/nothing');
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toEqual({ error: 'No device nothing' });
+  });
+
+  it('answers 405 for methods a resource does not take', async () => {
+    const response = await request('/devices', { method: 'DELETE' });
+    expect(response.status).toBe(405);
+    expect(await response.json()).toEqual({ error: 'Method DELETE not allowed, expected GET' });
+    expect((await request(`/devices/${plug.id}`, { method: 'PUT', body: '{}' })).status).toBe(405);
+  });
+
+  it('answers 400 for a value the function cannot take', async () => {
+    const response = await request(`/devices/${plug.id}/dps`, { method: 'PUT', body: JSON.stringify({ switch1: 'maybe' }) });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'switch1 of Plug cannot be set to "maybe", expected true or false' });
+    expect(simulator.dps['1']).toBe(true);
+  });
+
+  it('answers 413 for a body that is too large', async () => {
+    const values = { '1': 'x'.repeat(70 * 1024) };
+    const response = await request(`/devices/${plug.id}/dps`, { method: 'PUT', body: JSON.stringify(values) });
+    expect(response.status).toBe(413);
+    expect(simulator.dps['1']).toBe(true);
+  });
+});
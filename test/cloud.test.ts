@@ -0,0 +1,186 @@
+import { createHash, createHmac } from 'crypto';
+import { createServer } from 'http';
+import type { IncomingHttpHeaders, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { mergeCloudDevices, TuyaCloud, TuyaCloudError } from '../src/cloud.js';
+import type { CloudDevice } from '../src/cloud.js';
+
+const ACCESS_ID = 'testaccessid';
+const ACCESS_SECRET = 'testaccesssecret';
+const TOKEN = 'testaccesstoken';
+
+interface Request {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * The signature as the OpenAPI documents it, worked out here rather than with TuyaCloud.sign
+ */
+function expectedSign(method: string, url: string, headers: IncomingHttpHeaders, accessToken = '') {
+  const [pathname, query] = url.split('?');
+  const sortedUrl = query ? `${pathname}?${query.split('&').sort().join('&')}` : pathname;
+  const stringToSign = `${method}\n${createHash('sha256').update('').digest('hex')}\n\n${sortedUrl}`;
+  return createHmac('sha256', ACCESS_SECRET)
+    .update(`${ACCESS_ID}${accessToken}${headers.t}${headers.nonce}${stringToSign}`)
+    .digest('hex')
+    .toUpperCase();
+}
+
+function cloudDevice(device: Partial<CloudDevice> & { id: string; category: string }): CloudDevice {
+  return { name: device.id, local_key: `key-${device.id}`, ...device };
+}
+
+describe('TuyaCloud', () => {
+  let server: Server | undefined;
+  let requests: Request[];
+
+  /**
+   * Starts a local stand-in for the OpenAPI, answering each path with the next of its results
+   */
+  async function startCloud(results: Record<string, unknown[]>) {
+    requests = [];
+    server = createServer((request, response) => {
+      requests.push({ method: request.method!, url: request.url!, headers: request.headers });
+      const path = request.url!.split('?')[0];
+      const body = results[path]?.shift() ?? { success: false, code: 1108, msg: 'uri path invalid' };
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return new TuyaCloud({ accessId: ACCESS_ID, accessSecret: ACCESS_SECRET, endpoint: `http://127.0.0.1:${port}/` });
+  }
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  const token = { success: true, result: { access_token: TOKEN, expire_time: 7200 } };
+
+  it('signs the token request and the requests made with it', async () => {
+    const cloud = await startCloud({
+      '/v1.0/token': [token],
+      '/v1.0/iot-03/device-categories': [{ success: true, result: [{ code: 'kg', name: 'Switch' }] }],
+    });
+
+    expect(await cloud.getCategories()).toEqual([{ code: 'kg', name: 'Switch' }]);
+
+    const [tokenRequest, categoriesRequest] = requests;
+    expect(tokenRequest.url).toBe('/v1.0/token?grant_type=1');
+    expect(tokenRequest.headers).toMatchObject({ 'client_id': ACCESS_ID, 'sign_method': 'HMAC-SHA256' });
+    expect(tokenRequest.headers.access_token).toBeUndefined();
+    expect(tokenRequest.headers.sign).toBe(expectedSign('GET', tokenRequest.url, tokenRequest.headers));
+
+    expect(categoriesRequest.headers.access_token).toBe(TOKEN);
+    expect(categoriesRequest.headers.sign).toBe(expectedSign('GET', categoriesRequest.url, categoriesRequest.headers, TOKEN));
+  });
+
+  it('sorts the query when signing', () => {
+    const cloud = new TuyaCloud({ accessId: ACCESS_ID, accessSecret: ACCESS_SECRET });
+    expect(cloud.sign('GET', '/v1.0/devices?size=100&last_row_key=abc', '', '1700000000000', 'nonce'))
+      .toBe(cloud.sign('GET', '/v1.0/devices?last_row_key=abc&size=100', '', '1700000000000', 'nonce'));
+  });
+
+  it('reuses the token and follows the pages of the device list', async () => {
+    const cloud = await startCloud({
+      '/v1.0/token': [token],
+      '/v1.0/iot-01/associated-users/devices': [
+        { success: true, result: { devices: [cloudDevice({ id: 'plug1', category: 'cz' })], has_more: true, last_row_key: 'row/1' } },
+        { success: true, result: { devices: [cloudDevice({ id: 'plug2', category: 'cz' })], has_more: false } },
+      ],
+    });
+
+    const devices = await cloud.getDevices();
+
+    expect(devices.map((device) => device.id)).toEqual(['plug1', 'plug2']);
+    expect(requests.map((request) => request.url)).toEqual([
+      '/v1.0/token?grant_type=1',
+      '/v1.0/iot-01/associated-users/devices?size=100',
+      '/v1.0/iot-01/associated-users/devices?size=100&last_row_key=row%2F1',
+    ]);
+    for (const request of requests.slice(1)) {
+      expect(request.headers.sign).toBe(expectedSign('GET', request.url, request.headers, TOKEN));
+    }
+  });
+
+  it('rejects with the error the cloud reports', async () => {
+    const cloud = await startCloud({
+      '/v1.0/token': [{ success: false, code: 1004, msg: 'sign invalid' }],
+    });
+
+    const error = await cloud.getDevices().catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(TuyaCloudError);
+    expect(error).toMatchObject({ code: 1004, message: 'Tuya cloud request /v1.0/token?grant_type=1 failed: sign invalid' });
+  });
+});
+
+describe('mergeCloudDevices', () => {
+  it('adds new devices, updates changed keys and keeps configured settings', () => {
+    const { devices, added, updated, skipped } = mergeCloudDevices(
+      [
+        { name: 'Desk Lamp', id: 'lamp', key: 'old-key', type: 'dimmer', ip: '192.168.1.20' },
+        { name: 'Heater', id: 'heater', key: 'key-heater', type: 'heater' },
+      ],
+      [
+        cloudDevice({ id: 'lamp', name: 'Lamp', category: 'dj', local_key: 'new-key' }),
+        cloudDevice({ id: 'heater', category: 'qn' }),
+        cloudDevice({ id: 'plug', name: 'Plug', category: 'cz' }),
+        cloudDevice({ id: 'robot', name: 'Robot', category: 'sd' }),
+      ],
+      [{ code: 'sd', name: 'Robot Vacuum' }],
+    );
+
+    expect(devices).toEqual([
+      { name: 'Desk Lamp', id: 'lamp', key: 'new-key', type: 'dimmer', ip: '192.168.1.20' },
+      { name: 'Heater', id: 'heater', key: 'key-heater', type: 'heater' },
+      { name: 'Plug', id: 'plug', key: 'key-plug', type: 'outlet' },
+    ]);
+    expect(added).toEqual(['Plug']);
+    expect(updated).toEqual(['Desk Lamp']);
+    expect(skipped).toEqual(['Robot (Robot Vacuum)']);
+  });
+
+  it('adds sub-devices under their gateway, listed before or after it', () => {
+    const { devices, added, skipped } = mergeCloudDevices([], [
+      cloudDevice({ id: 'sensor', name: 'Sensor', category: 'mcs', node_id: 'a4c1', gateway_id: 'hub' }),
+      cloudDevice({ id: 'hub', name: 'Hub', category: 'wg2' }),
+      cloudDevice({ id: 'valve', name: 'Valve', category: 'sfkzq', node_id: 'b7d2', gateway_id: 'hub' }),
+      cloudDevice({ id: 'remote', name: 'Remote', category: 'mcs', node_id: 'c9e3', gateway_id: 'other' }),
+    ]);
+
+    expect(devices).toEqual([
+      { name: 'Hub', id: 'hub', key: 'key-hub', type: 'gateway', subDevices: [{ name: 'Sensor', cid: 'a4c1', type: 'contactSensor' }] },
+    ]);
+    expect(added).toEqual(['Hub', 'Sensor']);
+    // A sub-device of an unknown category is skipped like a device that connects directly
+    expect(skipped).toEqual(['Valve (sfkzq)', 'Remote (gateway other not found)']);
+  });
+
+  it('skips sub-devices of a gateway configured with another type', () => {
+    const configured = [{ name: 'Hub', id: 'hub', key: 'key-hub', type: 'switch' }];
+    const { devices, added, skipped } = mergeCloudDevices(configured, [
+      cloudDevice({ id: 'hub', category: 'wg2' }),
+      cloudDevice({ id: 'sensor', name: 'Sensor', category: 'mcs', node_id: 'a4c1', gateway_id: 'hub' }),
+    ]);
+
+    expect(devices).toEqual(configured);
+    expect(added).toEqual([]);
+    expect(skipped).toEqual(['Sensor (gateway Hub is configured as type switch)']);
+  });
+
+  it('does not add a sub-device twice', () => {
+    const configured = [{ name: 'Hub', id: 'hub', key: 'key-hub', type: 'gateway', subDevices: [{ name: 'Door', cid: 'a4c1', type: 'contactSensor' }] }];
+    const { devices, added } = mergeCloudDevices(configured, [
+      cloudDevice({ id: 'hub', category: 'wg2' }),
+      cloudDevice({ id: 'sensor', category: 'mcs', node_id: 'a4c1', gateway_id: 'hub' }),
+    ]);
+
+    expect(devices).toEqual(configured);
+    expect(added).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeTuyaColor, detectColorFormat, encodeTuyaColor } from '../src/color.js';
+
+describe('Tuya colour data', () => {
+  it('encodes and decodes the 12 character hsv format', () => {
+    expect(encodeTuyaColor({ hue: 240, saturation: 80, value: 100 }, 'hsv')).toBe('00f0032003e8');
+    expect(decodeTuyaColor('00f0032003e8')).toEqual({ hue: 240, saturation: 80, value: 100 });
+  });
+
+  it('encodes and decodes the 14 character legacy format', () => {
+    expect(encodeTuyaColor({ hue: 0, saturation: 100, value: 100 }, 'legacy')).toBe('ff00000000ffff');
+    expect(decodeTuyaColor('ff00000000ffff')).toEqual({ hue: 0, saturation: 100, value: 100 });
+  });
+
+  it.each(['hsv', 'legacy'] as const)('round-trips colours in the %s format', (format) => {
+    for (const color of [
+      { hue: 0, saturation: 0, value: 1 },
+      { hue: 60, saturation: 50, value: 50 },
+      { hue: 240, saturation: 80, value: 100 },
+      { hue: 359, saturation: 100, value: 75 },
+      { hue: 360, saturation: 100, value: 100 },
+    ]) {
+      const data = encodeTuyaColor(color, format);
+      expect(detectColorFormat(data)).toBe(format);
+      expect(decodeTuyaColor(data)).toEqual(color);
+    }
+  });
+
+  it('clamps values outside the HomeKit ranges', () => {
+    expect(encodeTuyaColor({ hue: 400, saturation: 120, value: -5 }, 'hsv')).toBe('016803e80000');
+  });
+
+  it('rejects strings that are not colour data', () => {
+    expect(decodeTuyaColor('')).toBeUndefined();
+    expect(decodeTuyaColor('00f0032003e')).toBeUndefined();
+    expect(decodeTuyaColor('zzf0032003e8')).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { decodeBroadcast, TuyaDiscovery } from '../src/discovery.js';
+import { ECB_55AA, GCM_6699, PLAIN_55AA } from './fixtures/broadcasts.js';
+import { createLog } from './helpers/homebridge.js';
+
+describe('decodeBroadcast', () => {
+  it('reads a plain 55AA broadcast', () => {
+    expect(decodeBroadcast(PLAIN_55AA)).toEqual({
+      id: 'bf31000000000000abcd',
+      ip: '192.168.1.31',
+      version: '3.1',
+      productKey: 'key31plain',
+    });
+  });
+
+  it('decrypts an ECB encrypted 55AA broadcast', () => {
+    expect(decodeBroadcast(ECB_55AA)).toEqual({
+      id: 'bf33000000000000abcd',
+      ip: '192.168.1.33',
+      version: '3.3',
+      productKey: 'key33ecb',
+    });
+  });
+
+  it('decrypts a GCM encrypted 6699 broadcast', () => {
+    expect(decodeBroadcast(GCM_6699)).toEqual({
+      id: 'bf35000000000000abcd',
+      ip: '192.168.1.35',
+      version: '3.5',
+      productKey: 'key35gcm',
+    });
+  });
+
+  it('rejects a 6699 broadcast whose tag does not match', () => {
+    const tampered = Buffer.from(GCM_6699);
+    tampered[40] ^= 0xFF;
+    expect(decodeBroadcast(tampered)).toBeUndefined();
+  });
+
+  it('rejects truncated packets and unknown prefixes', () => {
+    expect(decodeBroadcast(ECB_55AA.subarray(0, 60))).toBeUndefined();
+    expect(decodeBroadcast(GCM_6699.subarray(0, 60))).toBeUndefined();
+    expect(decodeBroadcast(PLAIN_55AA.subarray(0, 20))).toBeUndefined();
+    expect(decodeBroadcast(Buffer.concat([Buffer.from('00001234', 'hex'), PLAIN_55AA.subarray(4)]))).toBeUndefined();
+  });
+
+  it('rejects an encrypted payload that is not a device announcement', () => {
+    const garbage = Buffer.from(ECB_55AA);
+    garbage.fill(0x41, 20, 52);
+    expect(decodeBroadcast(garbage)).toBeUndefined();
+  });
+});
+
+describe('TuyaDiscovery', () => {
+  it('reports a device when it is first heard and when its address changes, and every other broadcast as seen', () => {
+    const onDevice = vi.fn();
+    const onSeen = vi.fn();
+    const discovery = new TuyaDiscovery(createLog(), onDevice, onSeen);
+    // Feeds a packet in as if it arrived on the discovery socket
+    const receive = (packet: Buffer) => (discovery as unknown as { handleMessage(packet: Buffer): void }).handleMessage(packet);
+
+    receive(ECB_55AA);
+    receive(ECB_55AA);
+    expect(onDevice).toHaveBeenCalledTimes(1);
+    expect(onSeen).toHaveBeenCalledTimes(1);
+    expect(onSeen).toHaveBeenCalledWith(expect.objectContaining({ id: 'bf33000000000000abcd', ip: '192.168.1.33' }));
+
+    const moved = decodeBroadcast(ECB_55AA)!;
+    discovery.devices.set(moved.id, { ...moved, ip: '192.168.1.99' });
+    receive(ECB_55AA);
+    expect(onDevice).toHaveBeenCalledTimes(2);
+    expect(onSeen).toHaveBeenCalledTimes(1);
+    expect(onDevice).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'bf33000000000000abcd', ip: '192.168.1.33' }));
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { DPS_PROFILES, resolveDpsMapping } from '../src/dps.js';
+import { deviceProblems } from '../src/validation.js';
+
+const KEY = '0123456789abcdef';
+
+describe('resolveDpsMapping', () => {
+  it('uses the profile of the device type when none is named', () => {
+    expect(resolveDpsMapping(undefined, undefined, 'curtain')).toEqual(DPS_PROFILES.curtain);
+  });
+
+  it('changes the fields an override gives and keeps the others', () => {
+    const mapping = resolveDpsMapping('designersFountain', { fanSpeed: { max: 4 }, lightOn: { dps: 9 } });
+    expect(mapping.fanSpeed).toEqual({ ...DPS_PROFILES.designersFountain.fanSpeed, max: 4 });
+    expect(mapping.lightOn).toEqual({ dps: 9, type: 'boolean' });
+  });
+
+  it('adds a function the profile lacks only with a data point and a type', () => {
+    expect(resolveDpsMapping('switch', { fanDirection: { dps: 8 } }).fanDirection).toBeUndefined();
+    expect(resolveDpsMapping('switch', { fanDirection: { dps: 8, type: 'boolean' } }).fanDirection).toEqual({ dps: 8, type: 'boolean' });
+  });
+
+  it('leaves a function of the profile unmapped when overridden with null or DPS 0', () => {
+    expect(resolveDpsMapping('curtain', { coverState: null })).not.toHaveProperty('coverState');
+    expect(resolveDpsMapping('curtain', { coverState: { dps: 0 } })).not.toHaveProperty('coverState');
+    expect(resolveDpsMapping('curtain', { coverState: null }).coverControl).toEqual(DPS_PROFILES.curtain.coverControl);
+  });
+
+  it('leaves the profile itself untouched', () => {
+    resolveDpsMapping('curtain', { coverState: null, coverPosition: { max: 50 } });
+    expect(DPS_PROFILES.curtain.coverState).toBeDefined();
+    expect(DPS_PROFILES.curtain.coverPosition?.max).toBe(100);
+  });
+});
+
+describe('deviceProblems', () => {
+  const device = { name: 'Curtain', id: 'abc', key: KEY, type: 'windowCovering' };
+
+  it('accepts null and DPS 0 to unmap a function', () => {
+    expect(deviceProblems({ ...device, dps: { coverState: null, coverPosition: { dps: 0 } } })).toEqual([]);
+  });
+
+  it('rejects negative data points and overrides that are not objects', () => {
+    expect(deviceProblems({ ...device, dps: { coverState: { dps: -1 } } })).toEqual([
+      'maps coverState to DPS "-1", expected a number from 1, or 0 to leave it unmapped',
+    ]);
+    expect(deviceProblems({ ...device, dps: { coverState: 3 as never } })).toEqual([
+      'maps coverState to 3, expected an object, or null to leave it unmapped',
+    ]);
+  });
+
+  it('rejects an override that cannot be completed from the profile', () => {
+    expect(deviceProblems({ ...device, dps: { fanDirection: { dps: 8 } } })).toEqual([
+      'maps fanDirection, which its DPS profile does not, without both a DPS and a type',
+    ]);
+    expect(deviceProblems({ ...device, dps: { fanDirection: { dps: 8, type: 'boolean' }, coverPosition: { max: 50 } } })).toEqual([]);
+  });
+
+  it('rejects a range without room between min and max, taking what the override leaves out from the profile', () => {
+    expect(deviceProblems({ ...device, dps: { coverPosition: { min: 50, max: 50 } } })).toEqual([
+      'maps coverPosition to the range 50-50, expected a min below the max',
+    ]);
+    expect(deviceProblems({ ...device, dps: { coverPosition: { min: 100 } } })).toEqual([
+      'maps coverPosition to the range 100-100, expected a min below the max',
+    ]);
+    expect(deviceProblems({ ...device, dps: { coverPosition: { min: 10 } } })).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Discovery broadcasts in the three formats Tuya devices send, as whole UDP packets: a 55AA frame
+ * with a plain JSON payload (protocol 3.1, port 6666), a 55AA frame with an AES-ECB encrypted payload
+ * (3.3 and 3.4, port 6667) and a 6699 frame with an AES-GCM encrypted payload (3.5, port 7000), all
+ * encrypted with the key every device shares. They follow the layout and JSON of real broadcasts,
+ * with made-up device ids and addresses.
+ */
+
+// Protocol 3.1 device bf31000000000000abcd at 192.168.1.31, command 0x12
+export const PLAIN_55AA = Buffer.from(
+  '000055aa000000000000001200000099000000007b226970223a223139322e3136382e312e3331222c2267774964223a' +
+  '226266333130303030303030303030303061626364222c22616374697665223a322c226162696c697479223a302c226d' +
+  '6f6465223a302c22656e6372797074223a66616c73652c2270726f647563744b6579223a226b65793331706c61696e22' +
+  '2c2276657273696f6e223a22332e31227d803385650000aa55',
+  'hex',
+);
+
+// Protocol 3.3 device bf33000000000000abcd at 192.168.1.33, command 0x13
+export const ECB_55AA = Buffer.from(
+  '000055aa00000000000000130000009c00000000d09766676f3369eb10b5e9f132fd802ada33ac0783b40988717eb19e' +
+  '7c3a62a666f3fd3a82f9632ed80be4d8132377a7e9feab3db60cde85869165fdbee1aff9cb5924bb8792fe5eae7c9040' +
+  'e5921a98017f2170860421e6fc66f0a1ade138915fde850cd157270c5f3d1ab5ae90b300d5b7b50458838aabd2dbe4c8' +
+  '8e83763149d7c04d4bd0e855432b819cbf4452f651edaf780000aa55',
+  'hex',
+);
+
+// Protocol 3.5 device bf35000000000000abcd at 192.168.1.35, command 0x13
+export const GCM_6699 = Buffer.from(
+  '0000669900000000000000000013000000c5303132333435363738396162042ce52c1986e9abb3bec8436999f733293f' +
+  'da25acbb880b2851e6e71da00fd51b5884a42b652f301786330d169ef3b6e8c555ef971c27eac979f7bc377f56cf6745' +
+  'd760e02641be83d47949878234b4ae7cc387373e8f5924c47d0a17bc3aa85eb1f8445b0a41f9d28fb71f2808ce914476' +
+  '3a38af690d8e2afb3eb802b34b3f25f201e7e961100d556fbede4998ebd6e219c174af0f15bb5f83f9a7cb48f164a981' +
+  'abfb8d5af1f34beada36d00f7f763d22e8c77c912bdba900009966',
+  'hex',
+);
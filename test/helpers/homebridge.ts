@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import hap from 'hap-nodejs';
+import type { API, Logging, PlatformAccessory, PlatformConfig } from 'homebridge';
+
+import { LocalTuyaPlatform } from '../../src/platform.js';
+import type { TuyaAccessory } from '../../src/platformAccessory.js';
+
+export { hap };
+
+/**
+ * A PlatformAccessory as Homebridge creates them, backed by a plain HAP accessory
+ */
+class MockPlatformAccessory extends EventEmitter {
+  public readonly UUID: string;
+  public displayName: string;
+  public context: Record<string, unknown> = {};
+  private readonly hapAccessory: InstanceType<typeof hap.Accessory>;
+
+  constructor(displayName: string, uuid: string) {
+    super();
+    this.hapAccessory = new hap.Accessory(displayName, uuid);
+    this.displayName = displayName;
+    this.UUID = uuid;
+  }
+
+  get services() {
+    return this.hapAccessory.services;
+  }
+
+  addService(...args: Parameters<InstanceType<typeof hap.Accessory>['addService']>) {
+    return this.hapAccessory.addService(...args);
+  }
+
+  removeService(service: InstanceType<typeof hap.Service>) {
+    this.hapAccessory.removeService(service);
+  }
+
+  getService(name: Parameters<InstanceType<typeof hap.Accessory>['getService']>[0]) {
+    return this.hapAccessory.getService(name);
+  }
+
+  getServiceById(uuid: string, subtype: string) {
+    return this.hapAccessory.getServiceById(uuid, subtype);
+  }
+}
+
+export interface LogEntry {
+  level: 'info' | 'warn' | 'error' | 'debug' | 'success';
+  message: string;
+}
+
+/**
+ * A Homebridge logger that keeps every message for assertions
+ */
+export function createLog(): Logging & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  const record = (level: LogEntry['level']) => (message: string, ...parameters: unknown[]) => {
+    entries.push({ level, message: [message, ...parameters.map((parameter) => JSON.stringify(parameter))].join(' ') });
+  };
+  return Object.assign(record('info'), {
+    entries,
+    prefix: 'LocalTuya',
+    info: record('info'),
+    warn: record('warn'),
+    error: record('error'),
+    debug: record('debug'),
+    success: record('success'),
+    log: record('info'),
+  }) as unknown as Logging & { entries: LogEntry[] };
+}
+
+/**
+ * The parts of the Homebridge API the plugin uses, with the accessories it registers kept in `accessories`
+ */
+export class MockApi extends EventEmitter {
+  public readonly hap = hap;
+  public readonly platformAccessory = MockPlatformAccessory;
+  public readonly serverVersion = '2.0.0';
+  public readonly accessories: Map<string, PlatformAccessory> = new Map();
+  public readonly user: { storagePath: () => string };
+
+  constructor(public readonly storagePath: string) {
+    super();
+    this.user = { storagePath: () => storagePath };
+  }
+
+  versionGreaterOrEqual() {
+    return true;
+  }
+
+  registerPlatformAccessories(_plugin: string, _platform: string, accessories: PlatformAccessory[]) {
+    for (const accessory of accessories) {
+      this.accessories.set(accessory.UUID, accessory);
+    }
+  }
+
+  updatePlatformAccessories() {
+    // Homebridge saves the accessory cache here, the accessories are kept in memory already
+  }
+
+  unregisterPlatformAccessories(_plugin: string, _platform: string, accessories: PlatformAccessory[]) {
+    for (const accessory of accessories) {
+      this.accessories.delete(accessory.UUID);
+    }
+  }
+}
+
+// Short polling settings in seconds, so offline detection and reconnects happen within a test
+export const FAST_POLLING = {
+  interval: 0.3,
+  activeInterval: 0.2,
+  retryDelay: 0.2,
+  maxRetryDelay: 1,
+  timeout: 0.3,
+  writeTimeout: 0.5,
+  detectTimeout: 0.5,
+};
+
+export interface TestHomebridge {
+  api: MockApi;
+  log: ReturnType<typeof createLog>;
+  platform: LocalTuyaPlatform;
+  device(name: string): TuyaAccessory;
+  // Restarts the platform with the accessories registered so far, as Homebridge does after a restart
+  restart(config?: Partial<PlatformConfig>): TestHomebridge;
+  stop(): void;
+}
+
+/**
+ * Starts the platform the way Homebridge does: cached accessories are restored, then
+ * `didFinishLaunching` is emitted. LAN discovery is off unless the config turns it on.
+ */
+export function startHomebridge(config: Partial<PlatformConfig>, storagePath = mkdtempSync(path.join(tmpdir(), 'localtuya-')),
+  cached: PlatformAccessory[] = []): TestHomebridge {
+  const api = new MockApi(storagePath);
+  const log = createLog();
+  const platformConfig = { platform: 'LocalTuya', discovery: false, polling: FAST_POLLING, ...config } as PlatformConfig;
+  const platform = new LocalTuyaPlatform(log, platformConfig, api as unknown as API);
+  for (const accessory of cached) {
+    api.accessories.set(accessory.UUID, accessory);
+    platform.configureAccessory(accessory);
+  }
+  api.emit('didFinishLaunching');
+
+  let stopped = false;
+  const stop = () => {
+    if (!stopped) {
+      stopped = true;
+      api.emit('shutdown');
+    }
+  };
+  return {
+    api,
+    log,
+    platform,
+    device: (name) => {
+      const device = platform.findAccessory(name);
+      if (!device) {
+        throw new Error(`No device ${name}`);
+      }
+      return device;
+    },
+    restart: (changes = {}) => {
+      stop();
+      return startHomebridge({ ...config, ...changes }, storagePath, [...api.accessories.values()]);
+    },
+    stop: () => {
+      stop();
+      rmSync(storagePath, { recursive: true, force: true });
+    },
+  };
+}
+
+type CharacteristicType = Parameters<InstanceType<typeof hap.Service>['getCharacteristic']>[0];
+
+/**
+ * The characteristic of the first service of the given type on a device's accessory
+ */
+export function characteristic(device: TuyaAccessory, service: { UUID: string }, type: CharacteristicType) {
+  const found = device.accessory.services.find((candidate) => candidate.UUID === service.UUID);
+  if (!found) {
+    throw new Error(`${device.accessory.displayName} has no service ${service.UUID}`);
+  }
+  return found.getCharacteristic(type)!;
+}
+
+/**
+ * Reads a characteristic the way the Home app does, through its onGet handler. A failed read
+ * rejects with the HAP status, such as SERVICE_COMMUNICATION_FAILURE for "No Response".
+ */
+export function readCharacteristic(device: TuyaAccessory, service: { UUID: string }, type: CharacteristicType) {
+  return characteristic(device, service, type).handleGetRequest();
+}
+
+/**
+ * Writes a characteristic the way the Home app does, through its onSet handler
+ */
+export function writeCharacteristic(device: TuyaAccessory, service: { UUID: string }, type: CharacteristicType, value: unknown) {
+  return characteristic(device, service, type).handleSetRequest(value as never);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { encodeSceneValue } from '../src/scene.js';
+import { validateScenes } from '../src/validation.js';
+
+const KEY = '0123456789abcdef';
+
+describe('encodeSceneValue', () => {
+  const fanSpeed = { dps: 3, type: 'integer' as const, min: 1, max: 100, steps: 3 };
+  const enumSpeed = { dps: 3, type: 'enum' as const, values: ['level_1', 'level_2', 'level_3', 'level_4'] };
+
+  it('sets stepped functions to the step a HomeKit slider would', () => {
+    expect(encodeSceneValue(fanSpeed, '30%')).toBe(1);
+    expect(encodeSceneValue(fanSpeed, '60%')).toBe(51);
+    expect(encodeSceneValue(enumSpeed, '30%')).toBe('level_1');
+    expect(encodeSceneValue(enumSpeed, '75%')).toBe('level_3');
+    expect(encodeSceneValue(enumSpeed, 'level_2')).toBe('level_2');
+  });
+
+  it('sets other integer functions to the share of their range', () => {
+    expect(encodeSceneValue({ dps: 22, type: 'integer', min: 10, max: 1000 }, '20%')).toBe(208);
+    expect(encodeSceneValue({ dps: 22, type: 'integer', min: 10, max: 1000 }, '500')).toBe(500);
+  });
+
+  it('sets two-state functions from true, false and the like', () => {
+    expect(encodeSceneValue({ dps: 1, type: 'boolean' }, 'off')).toBe(false);
+    expect(encodeSceneValue({ dps: 8, type: 'enum', values: ['forward', 'reverse'] }, true)).toBe('reverse');
+  });
+
+  it('refuses values the function cannot take', () => {
+    expect(() => encodeSceneValue(enumSpeed, 'turbo')).toThrow('expected one of level_1, level_2, level_3, level_4 or a percentage');
+    expect(() => encodeSceneValue(enumSpeed, 2)).toThrow();
+    expect(() => encodeSceneValue(fanSpeed, 'fast')).toThrow('expected a number or a percentage');
+    expect(() => encodeSceneValue({ dps: 1, type: 'boolean' }, 'maybe')).toThrow('expected true or false');
+  });
+
+  it('converts values for a raw data point only when they read as a number or a boolean', () => {
+    expect(encodeSceneValue(undefined, '42')).toBe(42);
+    expect(encodeSceneValue(undefined, 'on')).toBe(true);
+    expect(encodeSceneValue(undefined, 'movie')).toBe('movie');
+  });
+});
+
+describe('validateScenes', () => {
+  const devices = [
+    { name: 'Fan', id: 'fan', key: KEY, type: 'fan', dps: { fanSpeed: { dps: 3, type: 'enum' as const, values: ['low', 'high'] } } },
+    { name: 'Hub', id: 'hub', key: KEY, type: 'gateway', subDevices: [{ name: 'Plug', cid: 'a4c1', type: 'switch' }] },
+  ];
+
+  it('skips scenes with values a configured device cannot take', () => {
+    const { scenes, errors } = validateScenes([
+      { name: 'Breeze', actions: [{ device: 'Fan', function: 'fanSpeed', value: 'medium' }] },
+      { name: 'Night', actions: [{ device: 'fan', function: 'fanSpeed', value: '50%' }, { device: 'a4c1', function: 'switch1', value: 'off' }] },
+    ], devices);
+
+    expect(scenes.map((scene) => scene.name)).toEqual(['Night']);
+    expect(errors).toEqual([
+      'Scene Breeze has action 1 setting fanSpeed of Fan to "medium", expected one of low, high or a percentage, skipping',
+    ]);
+  });
+
+  it('leaves the values for devices that are not configured yet to when the scene runs', () => {
+    const { scenes, errors } = validateScenes([{ name: 'Later', actions: [{ device: 'Other', function: 'fanSpeed', value: 'medium' }] }], devices);
+    expect(scenes).toHaveLength(1);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_POLL_SETTINGS, pollDelay, PollScheduler, retryDelay } from '../src/scheduler.js';
+
+/**
+ * A poll that takes `ms` on the fake clock, noting when it starts in `starts`
+ */
+function timedPoll(starts: number[], ms = 0) {
+  return () => {
+    starts.push(Date.now());
+    return new Promise<void>((resolve) => setTimeout(resolve, ms));
+  };
+}
+
+describe('PollScheduler', () => {
+  let scheduler: PollScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('spreads out polls that come due together', async () => {
+    scheduler = new PollScheduler(4);
+    const starts: number[] = [];
+    for (const key of ['a', 'b', 'c']) {
+      scheduler.schedule(key, 1000, timedPoll(starts));
+    }
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(starts).toEqual([1000]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(starts).toEqual([1000, 1200, 1400]);
+  });
+
+  it('never runs more than maxConcurrent polls at once', async () => {
+    scheduler = new PollScheduler(2);
+    let running = 0;
+    let mostRunning = 0;
+    let finished = 0;
+    for (const key of ['a', 'b', 'c', 'd', 'e']) {
+      scheduler.schedule(key, 0, async () => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        running--;
+        finished++;
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(running).toBe(2);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(finished).toBe(5);
+    expect(mostRunning).toBe(2);
+  });
+
+  it('replaces the pending poll of a device when it is scheduled again or cancelled', async () => {
+    scheduler = new PollScheduler();
+    const first = vi.fn(() => Promise.resolve());
+    const second = vi.fn(() => Promise.resolve());
+
+    scheduler.schedule('a', 1000, first);
+    scheduler.schedule('a', 500, second);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(scheduler.isScheduled('a')).toBe(false);
+
+    scheduler.schedule('a', 1000, first);
+    expect(scheduler.isScheduled('a')).toBe(true);
+    scheduler.cancel('a');
+    expect(scheduler.isScheduled('a')).toBe(false);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  it('gives the slot of a poll that gives up on a hung device to the next one', async () => {
+    scheduler = new PollScheduler(1);
+    // As TuyaAccessory.refreshState does, a status query that is never answered is cut off by the poll timeout
+    const hung = vi.fn(() => Promise.race([
+      new Promise<void>(() => undefined),
+      new Promise<void>((_, reject) => setTimeout(() => reject(new Error('Operation timed out')), DEFAULT_POLL_SETTINGS.timeout)),
+    ]));
+    const starts: number[] = [];
+
+    scheduler.schedule('hung', 0, hung);
+    scheduler.schedule('next', 0, timedPoll(starts));
+    await vi.advanceTimersByTimeAsync(DEFAULT_POLL_SETTINGS.timeout - 1);
+    expect(hung).toHaveBeenCalledTimes(1);
+    expect(starts).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(starts).toEqual([DEFAULT_POLL_SETTINGS.timeout]);
+
+    // The failed poll leaves the scheduler running
+    scheduler.schedule('hung', 0, timedPoll(starts));
+    await vi.advanceTimersByTimeAsync(200);
+    expect(starts).toHaveLength(2);
+  });
+});
+
+describe('pollDelay', () => {
+  const settings = DEFAULT_POLL_SETTINGS;
+  const now = 10_000_000;
+  const recently = now - 1000;
+  const longAgo = now - settings.idleTime - 1000;
+
+  it('polls at the active interval for a while after a change from HomeKit', () => {
+    expect(pollDelay(settings, { lastAction: recently, lastChange: longAgo }, now)).toBe(settings.activeInterval);
+    expect(pollDelay(settings, { lastAction: now - settings.activeTime + 1, lastChange: longAgo }, now)).toBe(settings.activeInterval);
+  });
+
+  it('polls at the normal interval while the device has changed or been changed lately', () => {
+    expect(pollDelay(settings, { lastAction: 0, lastChange: recently }, now)).toBe(settings.interval);
+    expect(pollDelay(settings, { lastAction: now - settings.activeTime, lastChange: longAgo }, now)).toBe(settings.interval);
+  });
+
+  it('polls at the idle interval once neither has happened for idleTime', () => {
+    expect(pollDelay(settings, { lastAction: 0, lastChange: longAgo }, now)).toBe(settings.idleInterval);
+    expect(pollDelay(settings, { lastAction: longAgo, lastChange: now - settings.idleTime }, now)).toBe(settings.idleInterval);
+  });
+
+  it('never polls an idle device more often than the normal interval', () => {
+    expect(pollDelay({ ...settings, idleInterval: 1000 }, { lastAction: 0, lastChange: longAgo }, now)).toBe(settings.interval);
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles with each attempt up to maxRetryDelay', () => {
+    const settings = { ...DEFAULT_POLL_SETTINGS, retryDelay: 5000, maxRetryDelay: 30000 };
+    expect([0, 1, 2, 3].map((attempt) => retryDelay(settings, attempt))).toEqual([5000, 10000, 20000, 30000]);
+  });
+});
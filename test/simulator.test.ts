@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { Command } from '../src/simulator/protocol.js';
+import { TuyaSimulator } from '../src/simulator/tuyaSimulator.js';
+import { characteristic, hap, readCharacteristic, startHomebridge, writeCharacteristic } from './helpers/homebridge.js';
+import type { TestHomebridge } from './helpers/homebridge.js';
+
+const KEY = '0123456789abcdef';
+const { Service, Characteristic, HAPStatus } = hap;
+
+/**
+ * Resolves once the simulated device has been asked for its state, then a little later for the reply to be handled
+ */
+function nextQuery(simulator: TuyaSimulator): Promise<void> {
+  return new Promise((resolve) => {
+    const listener = (command: number) => {
+      if (command === Command.DP_QUERY) {
+        simulator.off('request', listener);
+        setTimeout(resolve, 100);
+      }
+    };
+    simulator.on('request', listener);
+  });
+}
+
+// Each simulated device listens on its own loopback address, so tests do not share a port
+let nextHost = 10;
+
+describe('LocalTuyaPlatform against a simulated device', () => {
+  let simulator: TuyaSimulator;
+  let homebridge: TestHomebridge | undefined;
+
+  async function startDevice(config: Record<string, unknown>, dps: Record<string, unknown>, platformConfig: Record<string, unknown> = {}) {
+    const host = `127.0.1.${nextHost++}`;
+    simulator = new TuyaSimulator({ id: `device${host}`, key: KEY, dps, host });
+    await simulator.start();
+    homebridge = startHomebridge({
+      devices: [{ id: `device${host}`, key: KEY, ip: host, ...config }],
+      ...platformConfig,
+    });
+    const device = homebridge.device(config.name as string);
+    await vi.waitFor(() => expect(device.isConnected).toBe(true));
+    return device;
+  }
+
+  function startSwitch(dps: Record<string, unknown> = { '1': true }) {
+    return startDevice({ name: 'Plug', type: 'switch' }, dps);
+  }
+
+  afterEach(async () => {
+    homebridge?.stop();
+    homebridge = undefined;
+    await simulator.stop();
+  });
+
+  it('shows the state the device reports and follows what it pushes', async () => {
+    const device = await startSwitch();
+    expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(true);
+
+    simulator.update({ '1': false });
+    await vi.waitFor(() => expect(device.dps['1']).toBe(false));
+    expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(false);
+  });
+
+  it('answers reads from what the device pushed without asking it again', async () => {
+    const device = await startDevice({ name: 'Plug', type: 'switch', polling: { interval: 5 } }, { '1': true });
+    await vi.waitFor(() => expect(device.diagnostics().health.successes).toBe(1));
+    let queries = 0;
+    simulator.on('request', (command: number) => {
+      if (command === Command.DP_QUERY) {
+        queries++;
+      }
+    });
+
+    simulator.update({ '1': false });
+    await vi.waitFor(() => expect(device.dps['1']).toBe(false));
+    for (let read = 0; read < 5; read++) {
+      expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    expect(queries).toBe(0);
+  });
+
+  it('writes hue and saturation set together as one colour', async () => {
+    const device = await startDevice({ name: 'Bulb', type: 'light', profile: 'colorLight' },
+      { '20': true, '21': 'white', '22': 1000, '23': 0, '24': '000003e803e8' });
+
+    // The Home app sets both parts of a colour in one request
+    await Promise.all([
+      writeCharacteristic(device, Service.Lightbulb, Characteristic.Hue, 240),
+      writeCharacteristic(device, Service.Lightbulb, Characteristic.Saturation, 80),
+    ]);
+
+    expect(simulator.dps['24']).toBe('00f0032003e8');
+    expect(simulator.dps['21']).toBe('colour');
+    expect(await readCharacteristic(device, Service.Lightbulb, Characteristic.Hue)).toBe(240);
+    expect(await readCharacteristic(device, Service.Lightbulb, Characteristic.Saturation)).toBe(80);
+  });
+
+  it('adds up the energy the device reports and keeps the total across a restart', async () => {
+    const device = await startDevice({ name: 'Washer', type: 'outlet', profile: 'meteredPlug' },
+      { '1': true, '17': 0, '18': 0, '19': 0, '20': 2300 });
+    const { TotalConsumption } = homebridge!.platform.CustomCharacteristics;
+
+    // Each report counts, also one with the same value as the last, status queries repeating it do not
+    simulator.update({ '17': 100 });
+    simulator.update({ '17': 100 });
+    await vi.waitFor(async () => expect(await readCharacteristic(device, Service.Outlet, TotalConsumption)).toBeCloseTo(0.2));
+    await nextQuery(simulator);
+    expect(await readCharacteristic(device, Service.Outlet, TotalConsumption)).toBeCloseTo(0.2);
+
+    homebridge = homebridge!.restart();
+    const restarted = homebridge.device('Washer');
+    expect(await readCharacteristic(restarted, Service.Outlet, TotalConsumption)).toBeCloseTo(0.2);
+
+    await vi.waitFor(() => expect(restarted.isConnected).toBe(true));
+    simulator.update({ '17': 50 });
+    await vi.waitFor(async () => expect(await readCharacteristic(restarted, Service.Outlet, TotalConsumption)).toBeCloseTo(0.25));
+  });
+
+  it('estimates the position of a curtain that does not report it', async () => {
+    const device = await startDevice({ name: 'Curtain', type: 'windowCovering', travelTime: 1, dps: { coverState: null } },
+      { '1': 'stop', '2': 0, '3': 0 });
+
+    await writeCharacteristic(device, Service.WindowCovering, Characteristic.TargetPosition, 100);
+    expect(simulator.dps['2']).toBe(100);
+
+    await vi.waitFor(async () => {
+      const position = await readCharacteristic(device, Service.WindowCovering, Characteristic.CurrentPosition);
+      expect(position).toBeGreaterThan(0);
+      expect(position).toBeLessThan(100);
+    });
+    await vi.waitFor(async () => expect(await readCharacteristic(device, Service.WindowCovering, Characteristic.CurrentPosition)).toBe(100),
+      { timeout: 2000 });
+    // What the motor reports for its position is not used
+    expect(simulator.dps['3']).toBe(0);
+
+    // The remote stops the motor on its way back
+    await writeCharacteristic(device, Service.WindowCovering, Characteristic.TargetPosition, 0);
+    await vi.waitFor(async () => expect(await readCharacteristic(device, Service.WindowCovering, Characteristic.CurrentPosition)).toBeLessThan(80));
+    simulator.update({ '1': 'stop' });
+    await vi.waitFor(() => expect(characteristic(device, Service.WindowCovering, Characteristic.PositionState).value)
+      .toBe(Characteristic.PositionState.STOPPED));
+    const stopped = await readCharacteristic(device, Service.WindowCovering, Characteristic.CurrentPosition);
+    expect(stopped).toBeGreaterThan(0);
+    expect(await readCharacteristic(device, Service.WindowCovering, Characteristic.TargetPosition)).toBe(stopped);
+  });
+
+  it('marks the device offline when it goes away and reconnects when it is back', async () => {
+    const device = await startSwitch();
+
+    await simulator.stop();
+    await vi.waitFor(() => expect(device.isReachable).toBe(false));
+    await expect(readCharacteristic(device, Service.Switch, Characteristic.On)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+
+    simulator.update({ '1': false });
+    await simulator.start();
+    await vi.waitFor(() => expect(device.isReachable).toBe(true), { timeout: 3000 });
+    await vi.waitFor(() => expect(device.dps['1']).toBe(false));
+    expect(device.diagnostics().health.reconnects).toBe(1);
+  });
+
+  it('connects to a sleeping sensor again when discovery hears it wake up', async () => {
+    const device = await startDevice({ name: 'Door', type: 'contactSensor' }, { '1': false, '2': 80 }, { discovery: true });
+    await simulator.announce();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    // Asleep, the sensor drops the connection and refuses new ones
+    await simulator.stop();
+    await vi.waitFor(() => expect(device.isConnected).toBe(false));
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    expect(device.isReachable).toBe(true);
+
+    // Awake again, it announces itself from the same address and pushes what has changed
+    await simulator.start();
+    await simulator.announce();
+    await vi.waitFor(() => expect(device.isConnected).toBe(true), { timeout: 3000 });
+    simulator.update({ '1': true });
+    await vi.waitFor(() => expect(characteristic(device, Service.ContactSensor, Characteristic.ContactSensorState).value)
+      .toBe(Characteristic.ContactSensorState.CONTACT_DETECTED));
+  });
+
+  it('keeps polling a device that stops answering', async () => {
+    const device = await startSwitch();
+    let queries = 0;
+    simulator.on('request', (command: number) => {
+      if (command === Command.DP_QUERY) {
+        queries++;
+      }
+    });
+
+    // The connection stays open, but nothing is answered any more
+    const { successes } = device.diagnostics().health;
+    simulator.setFault('timeout');
+    await vi.waitFor(() => expect(queries).toBeGreaterThanOrEqual(3), { timeout: 3000 });
+
+    // Each poll that went unanswered shows in the diagnostics
+    const { health } = device.diagnostics();
+    expect(health.timeouts).toBeGreaterThanOrEqual(2);
+    expect(health.successes).toBe(successes);
+    expect(health.lastError).toBe('Operation timed out');
+  });
+
+  it('marks a device that stops answering offline and brings it back once it answers again', async () => {
+    const device = await startSwitch();
+
+    simulator.setFault('timeout');
+    await vi.waitFor(() => expect(device.deviceState.consecutiveTimeouts).toBe(1));
+    await expect(readCharacteristic(device, Service.Switch, Characteristic.On)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    await vi.waitFor(() => expect(device.isReachable).toBe(false), { timeout: 3000 });
+    expect(device.isConnected).toBe(true);
+    expect(device.deviceState.consecutiveTimeouts).toBeGreaterThanOrEqual(3);
+
+    simulator.setFault();
+    await vi.waitFor(() => expect(device.isReachable).toBe(true), { timeout: 3000 });
+    expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(true);
+  });
+
+  it('starts counting timeouts again once a device that went offline pushes', async () => {
+    const device = await startSwitch();
+
+    simulator.setFault('timeout');
+    await vi.waitFor(() => expect(device.isReachable).toBe(false), { timeout: 3000 });
+
+    // The device still pushes over the open connection, which brings it back
+    simulator.update({ '1': false });
+    await vi.waitFor(() => expect(device.isReachable).toBe(true));
+    expect(device.deviceState.consecutiveTimeouts).toBe(0);
+
+    // One more unanswered request is not enough to take it offline again
+    await vi.waitFor(() => expect(device.deviceState.consecutiveTimeouts).toBe(1), { timeout: 3000 });
+    expect(device.isReachable).toBe(true);
+  });
+
+  it('recovers from a connection reset', async () => {
+    const device = await startSwitch();
+
+    simulator.setFault('reset', 1);
+    await nextQuery(simulator);
+    await vi.waitFor(() => expect(device.isConnected).toBe(true), { timeout: 3000 });
+
+    simulator.update({ '1': false });
+    await vi.waitFor(async () => expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(false), { timeout: 3000 });
+  });
+
+  it('ignores a reply that is not valid JSON and keeps the last state', async () => {
+    const device = await startSwitch();
+
+    simulator.setFault('badPayload', 1);
+    await nextQuery(simulator);
+
+    expect(device.dps['1']).toBe(true);
+    expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(true);
+    expect(device.isReachable).toBe(true);
+  });
+
+  it('keeps the state through an init-only DPS 33/35 burst', async () => {
+    const device = await startSwitch();
+
+    simulator.pushInitBurst();
+    simulator.setFault('initOnly', 2);
+    await nextQuery(simulator);
+    await nextQuery(simulator);
+
+    expect(device.isReachable).toBe(true);
+    expect(await readCharacteristic(device, Service.Switch, Characteristic.On)).toBe(true);
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // The simulated devices and the plugin's timers share one machine, running files one at a time keeps timings steady
+    fileParallelism: false,
+  },
+});